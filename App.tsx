@@ -1,12 +1,29 @@
 
 import React, { useState, useEffect } from 'react';
-import { Sparkles, Headphones, Loader2, Upload } from 'lucide-react';
+import { Sparkles, Headphones, Loader2, Upload, AlertTriangle, X, Layers, BookMarked, ChartColumn, Settings, SlidersHorizontal } from 'lucide-react';
 import { MOCK_MATERIALS } from './constants';
-import { Material } from './types';
+import { Material, QuizQuestion, Segment } from './types';
 import { ArticleCard } from './components/ArticleCard';
 import { BlurReader } from './components/BlurReader';
-import { generateMaterial } from './services/geminiService';
+import { generateMaterial, loadGenerationOptions, saveGenerationOptions } from './services/aiService';
+import { GenerationOptions, REGISTER_LABELS, getAIErrorMessage } from './services/aiProvider';
 import { ImportWizard } from './components/ImportWizard';
+import { AlignmentEditor } from './components/AlignmentEditor';
+import { ReviewDeck } from './components/ReviewDeck';
+import { VocabularyNotebook } from './components/VocabularyNotebook';
+import { StatsDashboard } from './components/StatsDashboard';
+import { LibraryToolbar } from './components/LibraryToolbar';
+import { MaterialEditor } from './components/MaterialEditor';
+import { AISettingsPanel } from './components/AISettingsPanel';
+import { GenerationOptionsPanel } from './components/GenerationOptionsPanel';
+import { deleteMaterialData, loadMaterials, saveAudio, saveMaterials, trackAudioUrl } from './services/materialStore';
+import { getDueCards, loadReviewCards, removeCardsForMaterial } from './services/reviewService';
+import { loadAllProgress, removeProgress } from './services/progressService';
+import { loadAllTags, removeTags, setTags } from './services/tagService';
+import { removeVocabularyForMaterial } from './services/vocabularyService';
+import { removeSessionsForMaterial } from './services/sessionService';
+import { summarizeValidation, validateMaterial } from './utils/materialValidation';
+import { EMPTY_LIBRARY_FILTER, LibraryFilter, LibrarySort, collectCategories, collectTags, filterMaterials, sortMaterials } from './utils/library';
 
 export default function App() {
   const [activeMaterial, setActiveMaterial] = useState<Material | null>(null);
@@ -15,35 +32,62 @@ export default function App() {
   const [prompt, setPrompt] = useState('');
   const [showImport, setShowImport] = useState(false);
   const [hasLoaded, setHasLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [alignmentMaterial, setAlignmentMaterial] = useState<Material | null>(null);
+  const [showReview, setShowReview] = useState(false);
+  const [showVocabulary, setShowVocabulary] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [libraryFilter, setLibraryFilter] = useState<LibraryFilter>(EMPTY_LIBRARY_FILTER);
+  const [librarySort, setLibrarySort] = useState<LibrarySort>('default');
+  const [tagsById, setTagsById] = useState<Record<string, string[]>>(() => loadAllTags());
+  const [editingMaterial, setEditingMaterial] = useState<Material | null>(null);
+  const [showAISettings, setShowAISettings] = useState(false);
+  const [generationError, setGenerationError] = useState<string | null>(null);
+  const [generationOptions, setGenerationOptions] = useState<GenerationOptions>(() => loadGenerationOptions());
+  const [showGenerationOptions, setShowGenerationOptions] = useState(false);
 
-  // Load from LocalStorage on mount
+  // Load custom materials (and their audio) from IndexedDB on mount
   useEffect(() => {
-    try {
-      const saved = localStorage.getItem('blurlisten_materials');
-      if (saved) {
-        const parsed = JSON.parse(saved);
+    let cancelled = false;
+    loadMaterials()
+      .then(stored => {
+        if (cancelled) return;
         const mockIds = new Set(MOCK_MATERIALS.map(m => m.id));
-        const customMaterials = parsed.filter((m: Material) => !mockIds.has(m.id));
+        // Older or hand-edited records may have broken timings; repair them and skip what can't be used
+        const customMaterials: Material[] = [];
+        let skipped = 0;
+        stored.filter(m => !mockIds.has(m.id)).forEach(m => {
+          const result = validateMaterial(m);
+          if (result.repairs.length > 0 || result.rejected.length > 0) {
+            console.warn(`Stored material "${m.title}": ${summarizeValidation(result)}`, result);
+          }
+          if (result.material) customMaterials.push(result.material);
+          else skipped++;
+        });
+        if (skipped > 0) {
+          setStorageError(`${skipped} saved material${skipped === 1 ? '' : 's'} could not be read and ${skipped === 1 ? 'was' : 'were'} skipped.`);
+        }
         setMaterials([...MOCK_MATERIALS, ...customMaterials]);
-      } else {
+        setHasLoaded(true);
+      })
+      .catch(e => {
+        if (cancelled) return;
+        console.error("Failed to load materials", e);
+        setStorageError("Saved materials could not be loaded. New imports will only last until you close this tab.");
+        // hasLoaded stays false: saving now would overwrite whatever is still stored with an empty list
         setMaterials(MOCK_MATERIALS);
-      }
-    } catch (e) {
-      console.error("Failed to load materials", e);
-      setMaterials(MOCK_MATERIALS);
-    }
-    setHasLoaded(true);
+      });
+    return () => { cancelled = true; };
   }, []);
 
-  // Save to LocalStorage whenever materials change
+  // Save to IndexedDB whenever materials change
   useEffect(() => {
     if (!hasLoaded) return;
     const customMaterials = materials.filter(m => !MOCK_MATERIALS.some(mock => mock.id === m.id));
-    try {
-       localStorage.setItem('blurlisten_materials', JSON.stringify(customMaterials));
-    } catch (e) {
-       console.warn("Storage quota exceeded, could not save new material locally.");
-    }
+    saveMaterials(customMaterials).catch(e => {
+      console.error("Failed to save materials", e);
+      setStorageError("Your materials could not be saved. Storage may be full or disabled in this browser.");
+    });
   }, [materials, hasLoaded]);
 
 
@@ -52,21 +96,115 @@ export default function App() {
     if (!prompt.trim()) return;
 
     setIsGenerating(true);
-    const newMaterial = await generateMaterial(prompt);
-    if (newMaterial) {
+    setGenerationError(null);
+    try {
+      const newMaterial = await generateMaterial(prompt, generationOptions);
       setMaterials(prev => [newMaterial, ...prev]);
       setPrompt('');
+    } catch (e) {
+      setGenerationError(getAIErrorMessage(e));
     }
     setIsGenerating(false);
   };
 
-  const handleImport = (material: Material) => {
+  const handleGenerationOptionsChange = (options: GenerationOptions) => {
+    setGenerationOptions(options);
+    saveGenerationOptions(options);
+  };
+
+  const handleImport = async (material: Material, audio?: Blob, openAlignment?: boolean) => {
+    trackAudioUrl(material.id, material.audioUrl);
+    if (audio) {
+      try {
+        await saveAudio(material.id, audio);
+      } catch (e) {
+        console.error("Failed to store audio", e);
+        setStorageError(`The audio for "${material.title}" could not be saved and will be lost on reload.`);
+      }
+    }
     setMaterials(prev => [material, ...prev]);
     setShowImport(false);
+    if (openAlignment && material.audioUrl) setAlignmentMaterial(material);
+  };
+
+  const handleSaveAlignment = (segments: Segment[]) => {
+    if (!alignmentMaterial) return;
+    const id = alignmentMaterial.id;
+    setMaterials(prev => prev.map(m => m.id === id ? { ...m, segments } : m));
+    setAlignmentMaterial(null);
   };
 
+  const isCustomMaterial = (material: Material) => !MOCK_MATERIALS.some(mock => mock.id === material.id);
+
+  // --- Library Management ---
+  const handleSaveEdit = (edited: Material, tags: string[]) => {
+    setTagsById(setTags(edited.id, tags));
+    if (isCustomMaterial(edited)) {
+      setMaterials(prev => prev.map(m => m.id === edited.id ? edited : m));
+    }
+    setEditingMaterial(null);
+  };
+
+  // Only the library copy changes; the open reader keeps its own quiz state so playback isn't reset
+  const handleSaveQuiz = (materialId: string, quiz: QuizQuestion[]) => {
+    setMaterials(prev => prev.map(m => m.id === materialId ? { ...m, quiz } : m));
+  };
+
+  const handleDelete = async (material: Material) => {
+    if (!isCustomMaterial(material)) return;
+    if (!confirm(`Delete "${material.title}"? Its audio, recordings, review cards, saved words, practice history and progress will be removed.`)) return;
+
+    setMaterials(prev => prev.filter(m => m.id !== material.id));
+    removeCardsForMaterial(material.id);
+    removeProgress(material.id);
+    removeVocabularyForMaterial(material.id);
+    removeSessionsForMaterial(material.id);
+    removeTags(material.id);
+    setTagsById(loadAllTags());
+    try {
+      await deleteMaterialData(material.id);
+    } catch (e) {
+      console.error("Failed to delete material data", e);
+      setStorageError(`Some stored data for "${material.title}" could not be removed.`);
+    }
+  };
+
+  // Read on every library render so counts are fresh after leaving the reader or the deck
+  const dueReviewCount = getDueCards(loadReviewCards())
+    .filter(card => materials.some(m => m.id === card.materialId)).length;
+  const progressByMaterial = loadAllProgress();
+  const visibleMaterials = sortMaterials(filterMaterials(materials, libraryFilter, tagsById), librarySort, progressByMaterial);
+
+  if (alignmentMaterial) {
+    return (
+      <AlignmentEditor
+        material={alignmentMaterial}
+        onSave={handleSaveAlignment}
+        onClose={() => setAlignmentMaterial(null)}
+      />
+    );
+  }
+
+  if (showReview) {
+    return <ReviewDeck materials={materials} onClose={() => setShowReview(false)} />;
+  }
+
+  if (showStats) {
+    return <StatsDashboard materials={materials} onClose={() => setShowStats(false)} />;
+  }
+
+  if (showVocabulary) {
+    return <VocabularyNotebook materials={materials} onClose={() => setShowVocabulary(false)} />;
+  }
+
   if (activeMaterial) {
-    return <BlurReader material={activeMaterial} onBack={() => setActiveMaterial(null)} />;
+    return (
+      <BlurReader
+        material={activeMaterial}
+        onBack={() => setActiveMaterial(null)}
+        onQuizChange={isCustomMaterial(activeMaterial) ? (quiz) => handleSaveQuiz(activeMaterial.id, quiz) : undefined}
+      />
+    );
   }
 
   return (
@@ -97,6 +235,30 @@ export default function App() {
                 {new Date().toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
             </span>
             <div className="flex gap-4">
+               <button 
+                 onClick={() => setShowReview(true)}
+                 className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-orange-400 hover:text-orange-300 transition-colors bg-orange-400/10 px-3 py-1.5 rounded-full"
+               >
+                 <Layers size={14} />
+                 Review
+                 {dueReviewCount > 0 && (
+                   <span className="bg-orange-400 text-black rounded-full px-1.5 text-[10px] leading-4">{dueReviewCount}</span>
+                 )}
+               </button>
+               <button 
+                 onClick={() => setShowStats(true)}
+                 className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-zinc-400 hover:text-zinc-300 transition-colors bg-zinc-400/10 px-3 py-1.5 rounded-full"
+               >
+                 <ChartColumn size={14} />
+                 Stats
+               </button>
+               <button 
+                 onClick={() => setShowVocabulary(true)}
+                 className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-emerald-400 hover:text-emerald-300 transition-colors bg-emerald-400/10 px-3 py-1.5 rounded-full"
+               >
+                 <BookMarked size={14} />
+                 Words
+               </button>
                <button 
                  onClick={() => setShowImport(true)}
                  className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-sky-500 hover:text-sky-400 transition-colors bg-sky-500/10 px-3 py-1.5 rounded-full"
@@ -104,6 +266,13 @@ export default function App() {
                  <Upload size={14} />
                  Import
                </button>
+               <button 
+                 onClick={() => setShowAISettings(true)}
+                 className="flex items-center text-zinc-400 hover:text-zinc-300 transition-colors bg-zinc-400/10 p-1.5 rounded-full"
+                 title="AI settings"
+               >
+                 <Settings size={14} />
+               </button>
             </div>
         </div>
         
@@ -123,6 +292,15 @@ export default function App() {
                 placeholder="Generate a topic (e.g. 'Coffee History')..." 
                 className="flex-1 bg-transparent border-none focus:ring-0 text-white placeholder-zinc-500 px-4 py-2 text-lg"
             />
+            <button
+                type="button"
+                onClick={() => setShowGenerationOptions(s => !s)}
+                className={`flex items-center gap-1.5 mr-2 px-3 py-2 rounded-xl text-xs font-bold transition-colors ${showGenerationOptions ? 'bg-white/20 text-white' : 'text-zinc-400 hover:text-white hover:bg-white/10'}`}
+                title="Generation options"
+            >
+                <SlidersHorizontal size={14} />
+                <span className="hidden sm:inline">{generationOptions.level} · {REGISTER_LABELS[generationOptions.register]}</span>
+            </button>
             <button 
                 type="submit"
                 disabled={isGenerating || !prompt}
@@ -131,17 +309,61 @@ export default function App() {
                 {isGenerating ? <Loader2 size={20} className="animate-spin" /> : "Go"}
             </button>
             </div>
+            {showGenerationOptions && (
+              <GenerationOptionsPanel options={generationOptions} onChange={handleGenerationOptionsChange} />
+            )}
+            {generationError && (
+              <div className="relative flex items-start gap-2 mt-3 text-sm text-red-300">
+                <AlertTriangle size={16} className="flex-shrink-0 mt-0.5 text-red-400" />
+                <p className="flex-1">
+                  {generationError}{' '}
+                  <button type="button" onClick={() => setShowAISettings(true)} className="underline hover:text-white">AI settings</button>
+                </p>
+                <button type="button" onClick={() => setGenerationError(null)} className="text-red-400 hover:text-red-200">
+                  <X size={14} />
+                </button>
+              </div>
+            )}
         </form>
       </header>
 
       <main className="px-6 max-w-lg mx-auto md:max-w-2xl lg:max-w-3xl space-y-12">
+        {storageError && (
+          <div className="flex items-start gap-3 bg-orange-500/10 border border-orange-500/30 text-orange-200 rounded-2xl p-4 text-sm">
+            <AlertTriangle size={18} className="flex-shrink-0 mt-0.5 text-orange-400" />
+            <p className="flex-1">{storageError}</p>
+            <button onClick={() => setStorageError(null)} className="text-orange-400 hover:text-orange-200">
+              <X size={16} />
+            </button>
+          </div>
+        )}
+
+        <LibraryToolbar
+          filter={libraryFilter}
+          onFilterChange={setLibraryFilter}
+          sort={librarySort}
+          onSortChange={setLibrarySort}
+          categories={collectCategories(materials)}
+          tags={collectTags(tagsById, materials)}
+          shownCount={visibleMaterials.length}
+          totalCount={materials.length}
+        />
+
         {/* Big Card Flow - Vertical Stack */}
         <section className="space-y-12">
-          {materials.map((material) => (
+          {visibleMaterials.length === 0 && (
+            <p className="text-center py-12 text-sm text-zinc-500">No materials match your search.</p>
+          )}
+          {visibleMaterials.map((material) => (
             <div key={material.id} className="transform transition-transform hover:scale-[1.02]">
                 <ArticleCard 
                     material={material} 
                     onClick={setActiveMaterial} 
+                    onEditTimings={isCustomMaterial(material) && material.audioUrl ? setAlignmentMaterial : undefined}
+                    progress={progressByMaterial[material.id]}
+                    tags={tagsById[material.id]}
+                    onEdit={setEditingMaterial}
+                    onDelete={isCustomMaterial(material) ? handleDelete : undefined}
                 />
             </div>
           ))}
@@ -155,6 +377,22 @@ export default function App() {
           onImport={handleImport}
         />
       )}
+
+      {/* AI Settings Modal */}
+      {showAISettings && (
+        <AISettingsPanel onClose={() => setShowAISettings(false)} />
+      )}
+
+      {/* Edit Modal */}
+      {editingMaterial && (
+        <MaterialEditor
+          material={editingMaterial}
+          tags={tagsById[editingMaterial.id] ?? []}
+          readOnly={!isCustomMaterial(editingMaterial)}
+          onSave={handleSaveEdit}
+          onClose={() => setEditingMaterial(null)}
+        />
+      )}
     </div>
   );
 }
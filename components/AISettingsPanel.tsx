@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Bot, Check, CircleAlert, CircleCheck, Loader2, X } from 'lucide-react';
+import { AIProviderId, AISettings, getAIErrorMessage } from '../services/aiProvider';
+import { AI_PROVIDER_LABELS, getAIProvider, loadAISettings, saveAISettings } from '../services/aiService';
+
+interface AISettingsPanelProps {
+  onClose: () => void;
+}
+
+type TestState = { status: 'idle' | 'running' } | { status: 'ok' | 'failed'; message: string };
+
+const labelClassName = "text-xs font-semibold uppercase text-zinc-500 tracking-wider";
+const inputClassName = "w-full bg-zinc-900/50 border border-zinc-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500 transition-all placeholder:text-zinc-600";
+
+export const AISettingsPanel: React.FC<AISettingsPanelProps> = ({ onClose }) => {
+  const [settings, setSettings] = useState<AISettings>(() => loadAISettings());
+  const [test, setTest] = useState<TestState>({ status: 'idle' });
+
+  const update = (patch: Partial<AISettings>) => {
+    setSettings(prev => ({ ...prev, ...patch }));
+    setTest({ status: 'idle' });
+  };
+
+  // A one-word lookup is the cheapest request every provider supports
+  const runTest = async () => {
+    setTest({ status: 'running' });
+    try {
+      const definition = await getAIProvider(settings).defineWord('listen', 'Listen carefully to each sentence.');
+      setTest({ status: 'ok', message: definition });
+    } catch (e) {
+      setTest({ status: 'failed', message: getAIErrorMessage(e) });
+    }
+  };
+
+  const handleSave = () => {
+    saveAISettings(settings);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-lg bg-[#1c1c1e] rounded-3xl border border-zinc-800 shadow-2xl overflow-hidden animate-in slide-in-from-bottom-8 duration-300 max-h-[90vh] overflow-y-auto custom-scrollbar">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-zinc-800 sticky top-0 bg-[#1c1c1e] z-10">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <Bot size={20} className="text-sky-500" />
+            AI Settings
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-zinc-500 hover:text-white hover:bg-white/10 rounded-full transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="space-y-2">
+            <label className={labelClassName}>Provider</label>
+            {(Object.keys(AI_PROVIDER_LABELS) as AIProviderId[]).map(id => (
+              <label
+                key={id}
+                className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer transition-colors ${settings.provider === id ? 'border-sky-500/50 bg-sky-500/10' : 'border-zinc-800 bg-zinc-900/50 hover:border-zinc-600'}`}
+              >
+                <input
+                  type="radio"
+                  name="ai-provider"
+                  checked={settings.provider === id}
+                  onChange={() => update({ provider: id })}
+                  className="accent-sky-500 mt-1"
+                />
+                <span className="text-sm text-zinc-200">
+                  {AI_PROVIDER_LABELS[id].title}
+                  <span className="block text-xs text-zinc-500">{AI_PROVIDER_LABELS[id].hint}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {settings.provider === 'gemini' && (
+            <div className="space-y-2">
+              <label className={labelClassName}>Model</label>
+              <input type="text" value={settings.geminiModel} onChange={(e) => update({ geminiModel: e.target.value })} className={inputClassName} />
+            </div>
+          )}
+
+          {settings.provider === 'openai-compatible' && (
+            <>
+              <div className="space-y-2">
+                <label className={labelClassName}>Server URL</label>
+                <input
+                  type="url"
+                  value={settings.localBaseUrl}
+                  onChange={(e) => update({ localBaseUrl: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                  className={inputClassName}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className={labelClassName}>Model</label>
+                <input type="text" value={settings.localModel} onChange={(e) => update({ localModel: e.target.value })} className={inputClassName} />
+              </div>
+              <div className="space-y-2">
+                <label className={labelClassName}>API Key (optional)</label>
+                <input
+                  type="password"
+                  value={settings.localApiKey}
+                  onChange={(e) => update({ localApiKey: e.target.value })}
+                  placeholder="Leave empty for most local servers"
+                  className={inputClassName}
+                />
+              </div>
+            </>
+          )}
+
+          <div className="space-y-2">
+            <button
+              onClick={runTest}
+              disabled={test.status === 'running'}
+              className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium bg-zinc-800 hover:bg-zinc-700 text-zinc-200 transition-colors disabled:opacity-50"
+            >
+              {test.status === 'running' && <Loader2 size={14} className="animate-spin" />}
+              Test connection
+            </button>
+            {(test.status === 'ok' || test.status === 'failed') && (
+              <p className={`flex items-start gap-2 text-xs ${test.status === 'ok' ? 'text-emerald-300' : 'text-red-400'}`}>
+                {test.status === 'ok' ? <CircleCheck size={14} className="flex-shrink-0" /> : <CircleAlert size={14} className="flex-shrink-0" />}
+                {test.message}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 pt-0 flex items-center justify-end gap-3 bg-[#1c1c1e] sticky bottom-0 z-10 pb-6">
+          <button
+            onClick={onClose}
+            className="px-6 py-3 rounded-xl font-medium text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-2 px-8 py-3 rounded-xl font-bold text-white shadow-lg transition-all bg-sky-500 hover:bg-sky-400 shadow-sky-500/20"
+          >
+            <Check size={18} strokeWidth={3} />
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
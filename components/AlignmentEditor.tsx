@@ -0,0 +1,444 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Check, Play, Pause, Scissors, Merge, Crosshair, ZoomIn, ZoomOut, Loader2 } from 'lucide-react';
+import { Material, Segment } from '../types';
+import { computeWaveformPeaks, decodeAudio, formatTimestamp } from '../utils/audioUtils';
+import { CONFIDENCE_STYLES, getConfidenceLevel } from '../utils/alignment';
+
+interface AlignmentEditorProps {
+  material: Material;
+  onSave: (segments: Segment[]) => void;
+  onClose: () => void;
+}
+
+type DragTarget = { index: number; edge: 'start' | 'end' };
+
+const MIN_SEGMENT_LENGTH = 0.1; // seconds
+const LINK_TOLERANCE = 0.02; // Boundaries closer than this move together when dragged
+const ZOOM_LEVELS = [5, 10, 20, 40, 80]; // Visible window in seconds
+
+export const AlignmentEditor: React.FC<AlignmentEditorProps> = ({ material, onSave, onClose }) => {
+  const [segments, setSegments] = useState<Segment[]>(() => material.segments.map(s => ({ ...s })));
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [zoomIndex, setZoomIndex] = useState(2);
+  const [viewStart, setViewStart] = useState(0);
+
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const rafRef = useRef<number>();
+  const dragRef = useRef<DragTarget | null>(null);
+  // When set, playback stops once this time is reached (used by "play segment")
+  const stopAtRef = useRef<number | null>(null);
+
+  const duration = buffer?.duration ?? (segments[segments.length - 1]?.endTime || 0);
+  const viewDuration = Math.min(ZOOM_LEVELS[zoomIndex], duration || ZOOM_LEVELS[zoomIndex]);
+  const viewEnd = viewStart + viewDuration;
+
+  // --- Load Audio ---
+  useEffect(() => {
+    let cancelled = false;
+    decodeAudio(material.audioUrl)
+      .then(decoded => { if (!cancelled) setBuffer(decoded); })
+      .catch(e => {
+        console.error("Waveform decode failed", e);
+        if (!cancelled) setLoadError("Could not decode this audio file. Timings can still be edited by playhead.");
+      });
+    return () => { cancelled = true; };
+  }, [material.audioUrl]);
+
+  // --- Draw Waveform for the visible window ---
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const width = canvas.clientWidth * window.devicePixelRatio;
+    const height = canvas.clientHeight * window.devicePixelRatio;
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, width, height);
+    if (!buffer) return;
+
+    const peaks = computeWaveformPeaks(buffer, Math.floor(width / 2), viewStart, viewEnd);
+    const mid = height / 2;
+    ctx.fillStyle = '#52525b';
+    peaks.forEach((peak, i) => {
+      const h = Math.max(1, peak * height * 0.9);
+      ctx.fillRect(i * 2, mid - h / 2, 1, h);
+    });
+  }, [buffer, viewStart, viewEnd]);
+
+  // --- Playhead Tracking ---
+  useEffect(() => {
+    if (!isPlaying) return;
+    const tick = () => {
+      const audio = audioRef.current;
+      if (audio) {
+        if (stopAtRef.current !== null && audio.currentTime >= stopAtRef.current) {
+          audio.pause();
+          stopAtRef.current = null;
+          setIsPlaying(false);
+        }
+        setCurrentTime(audio.currentTime);
+      }
+      rafRef.current = requestAnimationFrame(tick);
+    };
+    rafRef.current = requestAnimationFrame(tick);
+    return () => { if (rafRef.current) cancelAnimationFrame(rafRef.current); };
+  }, [isPlaying]);
+
+  // Keep the playhead in view while playing
+  useEffect(() => {
+    if (isPlaying && (currentTime < viewStart || currentTime > viewEnd)) {
+      setViewStart(Math.max(0, Math.min(currentTime - viewDuration * 0.1, duration - viewDuration)));
+    }
+  }, [currentTime, isPlaying]);
+
+  // --- Keyboard Shortcuts ---
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (document.activeElement?.tagName === 'INPUT' || document.activeElement?.tagName === 'TEXTAREA') return;
+      if (e.code === 'Space') { e.preventDefault(); togglePlay(); }
+      if (e.key === 'm' || e.key === 'M') { e.preventDefault(); markBoundary(); }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // --- Helpers ---
+  const timeFromClientX = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect) return 0;
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return viewStart + ratio * viewDuration;
+  };
+
+  const toPercent = (time: number) => ((time - viewStart) / viewDuration) * 100;
+
+  const seek = (time: number) => {
+    const clamped = Math.max(0, Math.min(duration, time));
+    if (audioRef.current) audioRef.current.currentTime = clamped;
+    setCurrentTime(clamped);
+  };
+
+  const updateSegment = (index: number, patch: Partial<Segment>) => {
+    setSegments(prev => prev.map((s, i) => i === index ? { ...s, ...patch } : s));
+  };
+
+  // --- Playback ---
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (isPlaying) {
+      audio.pause();
+      setIsPlaying(false);
+    } else {
+      stopAtRef.current = null;
+      audio.play().catch(e => console.error("Playback error", e));
+      setIsPlaying(true);
+    }
+  };
+
+  const playSegment = (index: number) => {
+    const seg = segments[index];
+    const audio = audioRef.current;
+    if (!seg || !audio) return;
+    audio.currentTime = seg.startTime;
+    stopAtRef.current = seg.endTime;
+    audio.play().catch(e => console.error("Playback error", e));
+    setIsPlaying(true);
+  };
+
+  // --- Editing ---
+
+  // Tap-to-mark: the playhead becomes the end of the selected segment and
+  // the start of the next one, then selection advances so you can keep tapping.
+  const markBoundary = () => {
+    const t = audioRef.current?.currentTime ?? currentTime;
+    const seg = segments[selectedIndex];
+    const next = segments[selectedIndex + 1];
+    if (!seg || t <= seg.startTime + MIN_SEGMENT_LENGTH) return;
+    // Past the next sentence's end would leave it with no (or negative) length
+    if (next && t >= next.endTime - MIN_SEGMENT_LENGTH) return;
+
+    setSegments(prev => prev.map((s, i) => {
+      if (i === selectedIndex) return { ...s, endTime: t, confidence: undefined };
+      if (i === selectedIndex + 1) return { ...s, startTime: t, confidence: undefined };
+      return s;
+    }));
+    setSelectedIndex(i => Math.min(segments.length - 1, i + 1));
+  };
+
+  const splitSelected = () => {
+    const seg = segments[selectedIndex];
+    // Both halves need a usable length; this also rules out zero-length segments
+    if (!seg || seg.endTime - seg.startTime < MIN_SEGMENT_LENGTH * 2) return;
+    const t = currentTime > seg.startTime + MIN_SEGMENT_LENGTH && currentTime < seg.endTime - MIN_SEGMENT_LENGTH
+      ? currentTime
+      : (seg.startTime + seg.endTime) / 2;
+
+    // Split the text at the word boundary closest to the same relative position
+    const ratio = (t - seg.startTime) / (seg.endTime - seg.startTime);
+    const words = seg.text.split(/\s+/);
+    if (words.length < 2) return;
+    const splitAt = Math.min(words.length - 1, Math.max(1, Math.round(words.length * ratio)));
+
+    const first: Segment = { ...seg, text: words.slice(0, splitAt).join(' '), endTime: t, confidence: undefined };
+    const second: Segment = {
+      ...seg,
+      id: `${seg.id}-${Date.now().toString(36)}`,
+      text: words.slice(splitAt).join(' '),
+      startTime: t,
+      confidence: undefined,
+    };
+    setSegments(prev => [...prev.slice(0, selectedIndex), first, second, ...prev.slice(selectedIndex + 1)]);
+  };
+
+  const mergeWithNext = () => {
+    const seg = segments[selectedIndex];
+    const next = segments[selectedIndex + 1];
+    if (!seg || !next) return;
+    const merged: Segment = {
+      ...seg,
+      text: `${seg.text} ${next.text}`,
+      startTime: Math.min(seg.startTime, next.startTime),
+      endTime: Math.max(seg.endTime, next.endTime),
+      confidence: undefined,
+    };
+    setSegments(prev => [...prev.slice(0, selectedIndex), merged, ...prev.slice(selectedIndex + 2)]);
+  };
+
+  // --- Boundary Dragging ---
+  const handlePointerDown = (e: React.PointerEvent, target: DragTarget) => {
+    e.stopPropagation();
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = target;
+    setSelectedIndex(target.index);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const t = timeFromClientX(e.clientX);
+
+    setSegments(prev => {
+      const next = prev.map(s => ({ ...s }));
+      const seg = next[drag.index];
+      if (drag.edge === 'start') {
+        const prevSeg = next[drag.index - 1];
+        const linked = prevSeg && Math.abs(prevSeg.endTime - seg.startTime) < LINK_TOLERANCE;
+        const min = prevSeg ? (linked ? prevSeg.startTime + MIN_SEGMENT_LENGTH : prevSeg.endTime) : 0;
+        seg.startTime = Math.max(min, Math.min(t, seg.endTime - MIN_SEGMENT_LENGTH));
+        seg.confidence = undefined;
+        if (linked) prevSeg.endTime = seg.startTime;
+      } else {
+        const nextSeg = next[drag.index + 1];
+        const linked = nextSeg && Math.abs(nextSeg.startTime - seg.endTime) < LINK_TOLERANCE;
+        const max = nextSeg ? (linked ? nextSeg.endTime - MIN_SEGMENT_LENGTH : nextSeg.startTime) : duration;
+        seg.endTime = Math.min(max, Math.max(t, seg.startTime + MIN_SEGMENT_LENGTH));
+        seg.confidence = undefined;
+        if (linked) nextSeg.startTime = seg.endTime;
+      }
+      return next;
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const selectSegment = (index: number) => {
+    setSelectedIndex(index);
+    const seg = segments[index];
+    if (seg && (seg.startTime < viewStart || seg.endTime > viewEnd)) {
+      setViewStart(Math.max(0, Math.min(seg.startTime - 0.5, duration - viewDuration)));
+    }
+    if (seg) seek(seg.startTime);
+  };
+
+  // Jump to the next automatically aligned sentence that still looks unreliable
+  const selectNextUncertain = () => {
+    const order = [...segments.keys()].map(i => (selectedIndex + 1 + i) % segments.length);
+    const target = order.find(i => {
+      const c = segments[i].confidence;
+      return c !== undefined && getConfidenceLevel(c) !== 'high';
+    });
+    if (target !== undefined) selectSegment(target);
+  };
+
+  const uncertainCount = segments.filter(s => s.confidence !== undefined && getConfidenceLevel(s.confidence) !== 'high').length;
+  const selected = segments[selectedIndex];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#09090b] flex flex-col animate-in fade-in duration-300">
+      {material.audioUrl && (
+        <audio ref={audioRef} src={material.audioUrl} onEnded={() => setIsPlaying(false)} />
+      )}
+
+      {/* Header */}
+      <header className="flex-none px-4 py-4 md:px-6 flex items-center justify-between bg-zinc-950/80 backdrop-blur-md border-b border-white/5">
+        <button
+          onClick={onClose}
+          className="w-10 h-10 flex items-center justify-center text-zinc-400 hover:text-white hover:bg-white/10 rounded-full transition-colors"
+        >
+          <X size={20} />
+        </button>
+        <div className="text-center min-w-0 px-4">
+          <span className="text-sky-500 text-xs font-bold uppercase tracking-widest block">Align Timings</span>
+          <h1 className="text-white font-serif font-bold truncate">{material.title}</h1>
+        </div>
+        <button
+          onClick={() => onSave(segments)}
+          className="flex items-center gap-2 px-4 py-2 rounded-xl font-bold text-white bg-sky-500 hover:bg-sky-400 transition-colors"
+        >
+          <Check size={16} strokeWidth={3} />
+          Save
+        </button>
+      </header>
+
+      {/* Waveform */}
+      <div className="flex-none px-4 md:px-6 pt-6 space-y-3">
+        {loadError && <p className="text-xs text-orange-400">{loadError}</p>}
+        <div
+          ref={trackRef}
+          className="relative h-32 bg-zinc-900 rounded-xl border border-zinc-800 overflow-hidden select-none touch-none"
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onClick={(e) => { if (!dragRef.current) seek(timeFromClientX(e.clientX)); }}
+        >
+          <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+          {!buffer && !loadError && (
+            <div className="absolute inset-0 flex items-center justify-center text-zinc-500">
+              <Loader2 size={20} className="animate-spin" />
+            </div>
+          )}
+
+          {segments.map((seg, index) => {
+            if (seg.endTime < viewStart || seg.startTime > viewEnd) return null;
+            const isSelected = index === selectedIndex;
+            const left = toPercent(seg.startTime);
+            const width = toPercent(seg.endTime) - left;
+            return (
+              <div
+                key={seg.id}
+                className={`absolute top-0 bottom-0 border-x ${isSelected ? 'bg-sky-500/20 border-sky-400' : 'bg-white/5 border-zinc-600'}`}
+                style={{ left: `${left}%`, width: `${width}%` }}
+              >
+                <span className="absolute top-1 left-1 flex items-center gap-1 text-[10px] font-bold text-zinc-400">
+                  {index + 1}
+                  {seg.confidence !== undefined && (
+                    <span className={`w-1.5 h-1.5 rounded-full ${CONFIDENCE_STYLES[getConfidenceLevel(seg.confidence)]}`} />
+                  )}
+                </span>
+                <div
+                  onPointerDown={(e) => handlePointerDown(e, { index, edge: 'start' })}
+                  onClick={(e) => e.stopPropagation()}
+                  className="absolute -left-1.5 top-0 bottom-0 w-3 cursor-ew-resize hover:bg-sky-400/40"
+                />
+                <div
+                  onPointerDown={(e) => handlePointerDown(e, { index, edge: 'end' })}
+                  onClick={(e) => e.stopPropagation()}
+                  className="absolute -right-1.5 top-0 bottom-0 w-3 cursor-ew-resize hover:bg-sky-400/40"
+                />
+              </div>
+            );
+          })}
+
+          {currentTime >= viewStart && currentTime <= viewEnd && (
+            <div className="absolute top-0 bottom-0 w-px bg-orange-400 pointer-events-none" style={{ left: `${toPercent(currentTime)}%` }} />
+          )}
+        </div>
+
+        {/* Window Navigation */}
+        <div className="flex items-center gap-3">
+          <span className="text-xs font-mono text-zinc-500 w-16">{formatTimestamp(viewStart)}</span>
+          <input
+            type="range"
+            min={0}
+            max={Math.max(0, duration - viewDuration)}
+            step={0.1}
+            value={viewStart}
+            onChange={(e) => setViewStart(parseFloat(e.target.value))}
+            className="flex-1 accent-sky-500"
+          />
+          <span className="text-xs font-mono text-zinc-500 w-16 text-right">{formatTimestamp(viewEnd)}</span>
+          <button onClick={() => setZoomIndex(i => Math.max(0, i - 1))} className="p-1.5 text-zinc-400 hover:text-white" title="Zoom In">
+            <ZoomIn size={16} />
+          </button>
+          <button onClick={() => setZoomIndex(i => Math.min(ZOOM_LEVELS.length - 1, i + 1))} className="p-1.5 text-zinc-400 hover:text-white" title="Zoom Out">
+            <ZoomOut size={16} />
+          </button>
+        </div>
+
+        {/* Tools */}
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={togglePlay} className="w-10 h-10 bg-sky-500 hover:bg-sky-400 text-white rounded-full flex items-center justify-center">
+            {isPlaying ? <Pause size={18} fill="currentColor" /> : <Play size={18} fill="currentColor" className="ml-0.5" />}
+          </button>
+          <span className="text-sm font-mono text-zinc-300 w-20">{formatTimestamp(currentTime)}</span>
+          <button onClick={markBoundary} className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-zinc-800 text-zinc-200 hover:bg-zinc-700 text-xs font-semibold" title="Mark end of selected sentence at playhead (M)">
+            <Crosshair size={14} /> Mark (M)
+          </button>
+          <button onClick={splitSelected} className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-zinc-800 text-zinc-200 hover:bg-zinc-700 text-xs font-semibold" title="Split selected sentence at playhead">
+            <Scissors size={14} /> Split
+          </button>
+          <button onClick={mergeWithNext} disabled={selectedIndex >= segments.length - 1} className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-zinc-800 text-zinc-200 hover:bg-zinc-700 text-xs font-semibold disabled:opacity-40" title="Merge selected sentence with the next one">
+            <Merge size={14} /> Merge
+          </button>
+          {uncertainCount > 0 && (
+            <button onClick={selectNextUncertain} className="ml-auto flex items-center gap-1.5 px-3 py-2 rounded-lg bg-amber-400/10 text-amber-300 hover:bg-amber-400/20 text-xs font-semibold" title="Jump to the next sentence whose timing may need fixing">
+              <span className="w-2 h-2 rounded-full bg-amber-400" /> {uncertainCount} to check
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Segment List */}
+      <main className="flex-1 overflow-y-auto px-4 md:px-6 py-4 space-y-2">
+        {segments.map((seg, index) => {
+          const isSelected = index === selectedIndex;
+          return (
+            <div
+              key={seg.id}
+              onClick={() => selectSegment(index)}
+              className={`rounded-xl p-3 border cursor-pointer transition-colors ${isSelected ? 'bg-zinc-800/60 border-sky-500/50' : 'bg-zinc-900/40 border-zinc-800 hover:bg-zinc-900'}`}
+            >
+              <div className="flex items-center gap-3 text-xs font-mono text-zinc-500 mb-1">
+                <span className="font-bold text-zinc-400">#{index + 1}</span>
+                <span>{formatTimestamp(seg.startTime)} – {formatTimestamp(seg.endTime)}</span>
+                {seg.confidence !== undefined && (
+                  <span
+                    className={`w-2 h-2 rounded-full ${CONFIDENCE_STYLES[getConfidenceLevel(seg.confidence)]}`}
+                    title={`Auto-alignment confidence: ${Math.round(seg.confidence * 100)}%`}
+                  />
+                )}
+                <button
+                  onClick={(e) => { e.stopPropagation(); setSelectedIndex(index); playSegment(index); }}
+                  className="ml-auto p-1 text-zinc-400 hover:text-white"
+                  title="Play sentence"
+                >
+                  <Play size={12} fill="currentColor" />
+                </button>
+              </div>
+              {isSelected && selected ? (
+                <textarea
+                  value={selected.text}
+                  onChange={(e) => updateSegment(index, { text: e.target.value })}
+                  onClick={(e) => e.stopPropagation()}
+                  className="w-full bg-black/40 border border-zinc-700 rounded-lg p-2 text-sm text-zinc-200 focus:outline-none focus:border-sky-500 resize-none"
+                  rows={2}
+                />
+              ) : (
+                <p className="text-sm text-zinc-300 line-clamp-2">{seg.text}</p>
+              )}
+            </div>
+          );
+        })}
+      </main>
+    </div>
+  );
+};
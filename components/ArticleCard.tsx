@@ -1,13 +1,26 @@
 import React from 'react';
-import { Play, Clock, BarChart } from 'lucide-react';
-import { Material } from '../types';
+import { Play, Clock, BarChart, AudioWaveform, RotateCw, Pencil, Trash2 } from 'lucide-react';
+import { Material, MaterialProgress } from '../types';
 
 interface ArticleCardProps {
   material: Material;
   onClick: (material: Material) => void;
+  onEditTimings?: (material: Material) => void;
+  progress?: MaterialProgress;
+  tags?: string[];
+  onEdit?: (material: Material) => void;
+  onDelete?: (material: Material) => void; // Only offered for custom materials
 }
 
-export const ArticleCard: React.FC<ArticleCardProps> = ({ material, onClick }) => {
+const metaButtonClassName = "flex items-center gap-1.5 uppercase tracking-widest text-xs font-bold bg-white/20 backdrop-blur-md px-3 py-1 rounded-full border border-white/10 hover:bg-white/30 transition-colors";
+
+export const ArticleCard: React.FC<ArticleCardProps> = ({ material, onClick, onEditTimings, progress, tags = [], onEdit, onDelete }) => {
+  const completed = progress
+    ? progress.completedSegmentIds.filter(id => material.segments.some(s => s.id === id)).length
+    : 0;
+  const total = material.segments.length;
+  const hasStarted = !!progress && (completed > 0 || progress.segmentId !== null || progress.time > 0);
+
   return (
     <div 
       onClick={() => onClick(material)}
@@ -28,9 +41,46 @@ export const ArticleCard: React.FC<ArticleCardProps> = ({ material, onClick }) =
         
         {/* Top Meta */}
         <div className="flex items-start justify-between opacity-80 group-hover:opacity-100 transition-opacity">
-           <span className="uppercase tracking-widest text-xs font-bold bg-white/20 backdrop-blur-md px-3 py-1 rounded-full border border-white/10">
-              {material.category}
-           </span>
+           <div className="flex flex-wrap gap-1.5">
+             <span className="uppercase tracking-widest text-xs font-bold bg-white/20 backdrop-blur-md px-3 py-1 rounded-full border border-white/10">
+                {material.category}
+             </span>
+             {tags.map(tag => (
+               <span key={tag} className="text-xs font-semibold text-sky-200 bg-sky-500/20 backdrop-blur-md px-2.5 py-1 rounded-full border border-sky-400/20">
+                 #{tag}
+               </span>
+             ))}
+           </div>
+           <div className="flex gap-1.5 flex-shrink-0">
+             {onEditTimings && (
+               <button
+                 onClick={(e) => { e.stopPropagation(); onEditTimings(material); }}
+                 className={metaButtonClassName}
+                 title="Edit sentence timings"
+               >
+                 <AudioWaveform size={14} />
+                 Timings
+               </button>
+             )}
+             {onEdit && (
+               <button
+                 onClick={(e) => { e.stopPropagation(); onEdit(material); }}
+                 className={`${metaButtonClassName} py-1.5`}
+                 title={onDelete ? "Edit material" : "Edit tags"}
+               >
+                 <Pencil size={12} />
+               </button>
+             )}
+             {onDelete && (
+               <button
+                 onClick={(e) => { e.stopPropagation(); onDelete(material); }}
+                 className={`${metaButtonClassName} py-1.5 hover:bg-red-500/40`}
+                 title="Delete material"
+               >
+                 <Trash2 size={12} />
+               </button>
+             )}
+           </div>
         </div>
 
         {/* Bottom Info */}
@@ -38,6 +88,7 @@ export const ArticleCard: React.FC<ArticleCardProps> = ({ material, onClick }) =
           <div className="space-y-2">
             <p className="text-zinc-400 text-sm font-medium uppercase tracking-wider">
               {material.difficulty} • {material.duration}
+              {hasStarted && <span className="text-sky-400"> • {completed}/{total} done</span>}
             </p>
             <h3 className="text-4xl md:text-5xl font-bold font-serif leading-none tracking-tight text-white group-hover:text-sky-200 transition-colors shadow-sm">
               {material.title}
@@ -50,12 +101,24 @@ export const ArticleCard: React.FC<ArticleCardProps> = ({ material, onClick }) =
 
           <div className="pt-4 flex items-center text-sm font-semibold text-sky-400 opacity-0 group-hover:opacity-100 transition-opacity duration-500 delay-100">
              <span className="flex items-center bg-white/10 backdrop-blur-md px-4 py-2 rounded-full hover:bg-white/20 transition-colors">
-               <Play fill="currentColor" className="w-4 h-4 mr-2" />
-               Start Session
+               {hasStarted ? (
+                 <><RotateCw className="w-4 h-4 mr-2" /> Continue</>
+               ) : (
+                 <><Play fill="currentColor" className="w-4 h-4 mr-2" /> Start Session</>
+               )}
              </span>
           </div>
         </div>
       </div>
+
+      {/* Progress */}
+      {hasStarted && total > 0 && (
+        <div className="absolute bottom-0 inset-x-0" title={`${completed} of ${total} sentences completed`}>
+          <div className="h-1 bg-white/10">
+            <div className="h-full bg-sky-400 transition-all" style={{ width: `${(completed / total) * 100}%` }} />
+          </div>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,19 +1,77 @@
 
 import React, { useEffect, useRef, useState } from 'react';
-import { Material, Segment } from '../types';
-import { ArrowLeft, Play, Pause, Square, AlignJustify, SkipBack, SkipForward, Repeat, Download, ChevronLeft, ChevronRight, Settings2, Trash2, Mic, Eye, EyeOff, BookOpen, MessageSquare } from 'lucide-react';
-import { mergeAudioBlobs } from '../utils/audioUtils';
+import { Material, MaterialProgress, PracticeSession, QuizQuestion, RecordingTake, Segment } from '../types';
+import { ArrowLeft, Play, Pause, Square, AlignJustify, SkipBack, SkipForward, Repeat, ChevronLeft, ChevronRight, Settings2, Mic, Eye, EyeOff, BookOpen, MessageSquare, Keyboard, Trophy, Lightbulb, Flag, Headset, Hourglass, ListChecks, Users } from 'lucide-react';
+import { AudioClip, decodeAudio, mergeAudioClips } from '../utils/audioUtils';
+import { downloadBlob, toFileName } from '../utils/fileUtils';
+import { DictationResult, scoreDictation } from '../utils/dictation';
+import { isFunctionWord, normalizeWord, toLengthPlaceholder } from '../utils/textUtils';
+import { getSpeakers } from '../utils/speakers';
+import { ExportMenu } from './ExportMenu';
+import { GapSetting, ReaderSettings, getGapSeconds } from './ReaderSettings';
+import { flagSegment, loadReviewCards, unflagSegment } from '../services/reviewService';
+import { createSession, saveSession } from '../services/sessionService';
+import { getProgress, saveProgress } from '../services/progressService';
+import { chooseRecording, deleteRecording, getChosenTake, loadRecordings, saveRecording } from '../services/recordingStore';
+import { getPreferredVoiceURI, isSpeechSupported, loadVoices, pickVoiceForLang, setPreferredVoiceURI, sortVoicesForPractice, speak } from '../services/speechService';
+import { DictationPanel, DictationSummary, DiffText } from './DictationPanel';
+import { RecordingTakes } from './RecordingTakes';
+import { TakeComparison } from './TakeComparison';
+import { WordPopover } from './WordPopover';
+import { RecordingExportMenu, RecordingExportOptions } from './RecordingExportMenu';
+import { QuizPanel } from './QuizPanel';
 
 interface BlurReaderProps {
   material: Material;
   onBack: () => void;
+  initialIndex?: number; // Segment to select on open (e.g. a review card)
+  reviewControls?: React.ReactNode; // Extra bar above the control deck, used by the review deck
+  persistProgress?: boolean; // Restore and save the resume position (off for review cards)
+  onQuizChange?: (quiz: QuizQuestion[]) => void; // Lets the quiz be generated or edited; absent for read-only materials
 }
 
-type ViewMode = 'visible' | 'blur' | 'blind';
-type PlaybackMode = 'article' | 'sentence';
+const VIEW_MODES = ['visible', 'blur', 'blind', 'dictation'] as const;
+const PLAYBACK_MODES = ['article', 'sentence', 'gap'] as const;
+type ViewMode = typeof VIEW_MODES[number];
+type PlaybackMode = typeof PLAYBACK_MODES[number]; // Gap: article playback that pauses after every sentence
 type LoopSetting = number;
+// Hands-free shadowing drill: listen (loopSetting passes), record, hear the take, move on
+type DrillPhase = 'listen' | 'record' | 'playback';
+// Role-play mic and the take being recorded; stream is null while the permission prompt is open
+type RolePlayState = { stream: MediaStream | null; take: { recorder: MediaRecorder; segmentId: string } | null };
+// How much of each word Blur Mode gives away, from least to most help
+type BlurHint = 'full' | 'first-letter' | 'content-words' | 'length';
 
-export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
+// Struggling with a sentence this often adds it to the review deck automatically
+const AUTO_FLAG_REPLAYS = 3;
+const AUTO_FLAG_PEEKS = 3;
+const AUTO_FLAG_DICTATION_ACCURACY = 0.6;
+
+// Session tracking: time only counts while playing, recording, or within this long of the last interaction
+const SESSION_TICK_SECONDS = 5;
+const SESSION_IDLE_SECONDS = 120;
+
+// Holding a word this long opens its definition (works on touch screens and in inactive sentences)
+const LONG_PRESS_MS = 500;
+
+// Drill recordings last as long as the sentence plus this much breathing room
+const DRILL_RECORD_MARGIN = 1.5;
+
+// Loop speed ramp: the first pass plays at this rate, the last at the chosen rate
+const RAMP_START_RATE = 0.75;
+const RAMP_MAX_PASSES = 3; // With infinite loops, full speed is reached on the third pass
+
+// Dialogue speakers are told apart by colour, in order of first appearance
+const SPEAKER_COLORS = ['text-sky-400', 'text-amber-400', 'text-emerald-400', 'text-fuchsia-400', 'text-orange-400', 'text-teal-400'];
+
+const BLUR_HINT_LABELS: Record<BlurHint, string> = {
+  'full': 'Full Blur',
+  'first-letter': 'First Letters',
+  'content-words': 'Key Words',
+  'length': 'Word Lengths',
+};
+
+export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack, initialIndex, reviewControls, persistProgress = true, onQuizChange }) => {
   // Playback State
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
@@ -24,34 +82,123 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
   const [playbackMode, setPlaybackMode] = useState<PlaybackMode>('sentence'); // Default to drilling
   const [loopSetting, setLoopSetting] = useState<LoopSetting>(1);
   const [viewMode, setViewMode] = useState<ViewMode>('blur');
+  const [blurHint, setBlurHint] = useState<BlurHint>('full');
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [rampLoops, setRampLoops] = useState(false);
+  const [gapSetting, setGapSetting] = useState<GapSetting>({ unit: 'multiple', value: 1 });
+  const [isGapPause, setIsGapPause] = useState(false);
+
+  // Text-to-Speech (used instead of the silent timer when a material has no audio)
+  const [speechEnabled, setSpeechEnabled] = useState(isSpeechSupported());
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [voiceURI, setVoiceURI] = useState<string | null>(getPreferredVoiceURI());
+
+  // Progressive Reveal State (word indices refer to seg.text.split(/(\s+)/) parts)
+  const [revealedWords, setRevealedWords] = useState<Record<string, number[]>>({});
+  const [peekCounts, setPeekCounts] = useState<Record<string, number>>({});
+
+  // Word Lookup
+  const [lookup, setLookup] = useState<{ word: string; segment: Segment; anchor: DOMRect } | null>(null);
+
+  // Review Deck Flags
+  const [flaggedIds, setFlaggedIds] = useState<Set<string>>(new Set());
   
   // Recording State
-  const [userRecordings, setUserRecordings] = useState<Record<string, Blob>>({});
+  const [userRecordings, setUserRecordings] = useState<Record<string, RecordingTake[]>>({}); // Takes per segment id, oldest first
   const [isRecording, setIsRecording] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
-  const [isUserPlaying, setIsUserPlaying] = useState(false);
+  const [playingTakeId, setPlayingTakeId] = useState<string | null>(null);
+  const [comparingTakeId, setComparingTakeId] = useState<string | null>(null);
+  const [drillPhase, setDrillPhase] = useState<DrillPhase | null>(null);
+
+  // Dictation State
+  const [dictationResults, setDictationResults] = useState<Record<string, DictationResult>>({});
+  const [awaitingDictation, setAwaitingDictation] = useState(false);
+  const [showDictationSummary, setShowDictationSummary] = useState(false);
+
+  // Quiz State: kept here so answers survive closing the quiz to re-listen
+  const [quiz, setQuiz] = useState<QuizQuestion[]>(material.quiz ?? []);
+  const [quizAnswers, setQuizAnswers] = useState<Record<string, number>>({});
+  const [showQuiz, setShowQuiz] = useState(false);
+
+  // Role-play: one speaker's lines are muted and recorded as the learner's takes
+  const [rolePlaySpeaker, setRolePlaySpeaker] = useState<string | null>(null);
 
   // Refs
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const userAudioRef = useRef<HTMLAudioElement | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  // Mic stream and pending timer of a running drill; null when no drill is active
+  const drillRef = useRef<{ stream: MediaStream; timer: number | null } | null>(null);
+  const rolePlayRef = useRef<RolePlayState | null>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const segmentRefs = useRef<(HTMLDivElement | null)[]>([]);
   const preciseCheckRef = useRef<number>();
   const simulationRef = useRef<number | null>(null);
+  const gapTimerRef = useRef<number | null>(null); // Resumes simulation/speech after a Gap Mode pause
+  const gapUntilRef = useRef<number | null>(null); // performance.now() at which audio resumes after a gap
+  const gapDoneRef = useRef(-1); // Segment whose gap has been taken, so resuming doesn't pause again
+  const cancelSpeechRef = useRef<(() => void) | null>(null);
+  const speechEndRef = useRef<(index: number) => void>(() => {});
+  const longPressRef = useRef<{ timer: number | null; fired: boolean }>({ timer: null, fired: false });
   
   // CRITICAL: Synchronous Refs
   const activeIndexRef = useRef(-1);
   const playCountRef = useRef(0); // Tracks how many times current sentence has played
+  const replayCountsRef = useRef<Record<string, number>>({}); // Manual replays per segment, for auto-flagging
+  // Latest "all loops done" handler; the rAF loop and simulation interval hold stale closures
+  const loopsFinishedRef = useRef<(index: number) => void>(() => {});
+  const keyDownRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  const sessionRef = useRef<PracticeSession | null>(null);
+  const lastInteractionRef = useRef(Date.now());
+  const sessionStateRef = useRef({ isPlaying, isRecording, viewMode });
+  sessionStateRef.current = { isPlaying, isRecording, viewMode };
+  // Resume position
+  const completedIdsRef = useRef<Set<string>>(new Set());
+  const startTimeRef = useRef(0); // Where the audio should start once its metadata has loaded
+  const skipProgressSaveRef = useRef(false);
+  const pendingScrollRef = useRef<number | null>(null); // Restored segment to bring into view once it has rendered
+  const rateSettingsRef = useRef({ playbackRate, rampLoops, loopSetting, playbackMode });
+  rateSettingsRef.current = { playbackRate, rampLoops, loopSetting, playbackMode };
+  // Read when an utterance starts, which is often from a timer or callback set up renders ago
+  const speechSettingsRef = useRef({ speechEnabled, voiceURI });
+  speechSettingsRef.current = { speechEnabled, voiceURI };
 
   // --- Initialization ---
   useEffect(() => {
-    setActiveIndex(-1);
-    activeIndexRef.current = -1;
-    setCurrentTime(0);
+    const hasInitialIndex = initialIndex !== undefined && !!material.segments[initialIndex];
+    const saved = persistProgress && !hasInitialIndex ? getProgress(material.id) : null;
+    const savedIndex = saved?.segmentId ? material.segments.findIndex(s => s.id === saved.segmentId) : -1;
+    const startIndex = hasInitialIndex ? initialIndex! : savedIndex;
+    const startTime = hasInitialIndex || !saved
+        ? material.segments[startIndex]?.startTime ?? 0
+        : Math.max(0, saved.time);
+    setActiveIndex(startIndex);
+    activeIndexRef.current = startIndex;
+    setCurrentTime(startTime);
+    startTimeRef.current = startTime;
+    pendingScrollRef.current = startIndex !== -1 ? startIndex : null;
+    completedIdsRef.current = new Set(saved?.completedSegmentIds.filter(id => material.segments.some(s => s.id === id)));
+    if (saved) {
+        if ((VIEW_MODES as readonly string[]).includes(saved.viewMode)) setViewMode(saved.viewMode as ViewMode);
+        if ((PLAYBACK_MODES as readonly string[]).includes(saved.playbackMode)) setPlaybackMode(saved.playbackMode as PlaybackMode);
+        setLoopSetting(saved.loopSetting ?? Infinity);
+    }
+    // The save effect below would otherwise write the pre-restore defaults back
+    skipProgressSaveRef.current = true;
     setIsPlaying(false);
     playCountRef.current = 0;
-    setUserRecordings({});
+    setDictationResults({});
+    setRevealedWords({});
+    setPeekCounts({});
+    setAwaitingDictation(false);
+    setShowDictationSummary(false);
+    setQuiz(material.quiz ?? []);
+    setQuizAnswers({});
+    setShowQuiz(false);
+    setLookup(null);
+    replayCountsRef.current = {};
+    setFlaggedIds(new Set(loadReviewCards().filter(c => c.materialId === material.id).map(c => c.segmentId)));
     segmentRefs.current = segmentRefs.current.slice(0, material.segments.length);
     
     // Set duration for mock items
@@ -61,29 +208,178 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
     }
   }, [material]);
 
+  // Opening on a restored (or review) sentence: bring it into view as soon as its element exists
+  useEffect(() => {
+    const idx = pendingScrollRef.current;
+    const el = idx !== null ? segmentRefs.current[idx] : null;
+    if (!el) return;
+    pendingScrollRef.current = null;
+    el.scrollIntoView({ block: 'center' });
+  });
+
+  // Recordings are kept in IndexedDB so takes survive leaving the reader
+  useEffect(() => {
+    let cancelled = false;
+    setUserRecordings({});
+    loadRecordings(material.id)
+      .then(takes => { if (!cancelled) setUserRecordings(takes); })
+      .catch(e => console.error("Failed to load recordings", e));
+    return () => { cancelled = true; };
+  }, [material]);
+
+  // --- Resume Position ---
+  const getProgressSnapshot = (): MaterialProgress => ({
+    materialId: material.id,
+    segmentId: material.segments[activeIndex]?.id ?? null,
+    time: currentTime,
+    viewMode,
+    playbackMode,
+    loopSetting: loopSetting === Infinity ? null : loopSetting,
+    completedSegmentIds: Array.from(completedIdsRef.current),
+    updatedAt: Date.now(),
+  });
+  const progressSnapshotRef = useRef(getProgressSnapshot);
+  progressSnapshotRef.current = getProgressSnapshot;
+
+  useEffect(() => {
+    if (!persistProgress) return;
+    if (skipProgressSaveRef.current) {
+      skipProgressSaveRef.current = false;
+      return;
+    }
+    saveProgress(getProgressSnapshot());
+  }, [material, activeIndex, viewMode, playbackMode, loopSetting, isPlaying]);
+
+  // Keep the exact time when leaving mid-sentence
+  useEffect(() => {
+    const materialId = material.id;
+    return () => {
+      const snapshot = progressSnapshotRef.current();
+      if (persistProgress && snapshot.materialId === materialId) saveProgress(snapshot);
+    };
+  }, [material]);
+
+  // --- Session Tracking ---
+  useEffect(() => {
+    const session = createSession(material.id);
+    sessionRef.current = session;
+    lastInteractionRef.current = Date.now();
+    const persist = () => {
+      if (session.activeSeconds > 0 || session.recordings > 0 || Object.keys(session.loops).length > 0) saveSession(session);
+    };
+
+    const markInteraction = () => { lastInteractionRef.current = Date.now(); };
+    const timer = window.setInterval(() => {
+      const { isPlaying, isRecording, viewMode } = sessionStateRef.current;
+      const now = Date.now();
+      const engaged = isPlaying || isRecording || now - lastInteractionRef.current < SESSION_IDLE_SECONDS * 1000;
+      if (document.visibilityState !== 'visible' || !engaged) return;
+      session.activeSeconds += SESSION_TICK_SECONDS;
+      session.viewModeSeconds[viewMode] = (session.viewModeSeconds[viewMode] || 0) + SESSION_TICK_SECONDS;
+      session.lastActiveAt = now;
+      persist();
+    }, SESSION_TICK_SECONDS * 1000);
+
+    window.addEventListener('pointerdown', markInteraction);
+    window.addEventListener('keydown', markInteraction);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('pointerdown', markInteraction);
+      window.removeEventListener('keydown', markInteraction);
+      persist();
+      sessionRef.current = null;
+    };
+  }, [material]);
+
+  // Called whenever a sentence-mode pass completes
+  const recordLoop = (idx: number) => {
+    const session = sessionRef.current;
+    const seg = material.segments[idx];
+    if (!seg) return;
+    completedIdsRef.current.add(seg.id); // A full pass also counts towards resume progress
+    if (session) session.loops[seg.id] = (session.loops[seg.id] || 0) + 1;
+  };
+
   // --- Keyboard Shortcuts ---
+  // Reassigned every render so shortcuts always act on the current role-play, take and playback state
+  keyDownRef.current = (e: KeyboardEvent) => {
+      if (document.activeElement?.tagName === 'INPUT' || document.activeElement?.tagName === 'TEXTAREA') return;
+
+      if (e.code === 'Space') { e.preventDefault(); togglePlay(); }
+      if (e.key === 'Control') { e.preventDefault(); replayCurrent(); }
+      if (e.code === 'ArrowUp') { e.preventDefault(); cycleViewMode(); }
+      if (e.code === 'ArrowLeft') { e.preventDefault(); skipToSegment('prev'); }
+      if (e.code === 'ArrowRight') { e.preventDefault(); skipToSegment('next'); }
+      if (e.key === ',' || e.key === '<') { seekRelative(-2); }
+      if (e.key === '.' || e.key === '>') { seekRelative(2); }
+  };
+
   useEffect(() => {
-      const handleKeyDown = (e: KeyboardEvent) => {
-          if (document.activeElement?.tagName === 'INPUT' || document.activeElement?.tagName === 'TEXTAREA') return;
-
-          if (e.code === 'Space') { e.preventDefault(); togglePlay(); }
-          if (e.key === 'Control') { e.preventDefault(); replayCurrent(); }
-          if (e.code === 'ArrowUp') { e.preventDefault(); cycleViewMode(); }
-          if (e.code === 'ArrowLeft') { e.preventDefault(); skipToSegment('prev'); }
-          if (e.code === 'ArrowRight') { e.preventDefault(); skipToSegment('next'); }
-          if (e.key === ',' || e.key === '<') { seekRelative(-2); }
-          if (e.key === '.' || e.key === '>') { seekRelative(2); }
-      };
+      const handleKeyDown = (e: KeyboardEvent) => keyDownRef.current(e);
       window.addEventListener('keydown', handleKeyDown);
       return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [material.audioUrl, isPlaying, viewMode]);
+  }, []);
 
 
+  // Last segment that has started by `time` (so the silence after a sentence still belongs to it)
+  const segmentIndexAt = (time: number) => {
+      let idx = -1;
+      material.segments.forEach((seg, i) => { if (seg.startTime <= time) idx = i; });
+      return idx;
+  };
+
+  const getGapMs = (seg: Segment) => getGapSeconds(gapSetting, seg.endTime - seg.startTime) * 1000;
+
+  // Passes per sentence before playback stops. An infinite loop would never hand over
+  // to the drill's record step, so the drill listens once and repeats the sentence instead.
+  const getLoopLimit = () => {
+      const { loopSetting } = rateSettingsRef.current;
+      return drillRef.current && loopSetting === Infinity ? 1 : loopSetting;
+  };
+
+  // --- Playback Speed ---
+  // Speed for the current pass. With the ramp on, sentence loops start slow and
+  // reach the chosen speed on the final pass.
+  const getLoopRate = () => {
+      const { playbackRate, rampLoops, loopSetting, playbackMode } = rateSettingsRef.current;
+      const passes = Math.min(loopSetting, RAMP_MAX_PASSES);
+      if (!rampLoops || playbackMode !== 'sentence' || passes < 2) return playbackRate;
+      const start = Math.min(RAMP_START_RATE, playbackRate);
+      const progress = Math.min(1, playCountRef.current / (passes - 1));
+      return start + (playbackRate - start) * progress;
+  };
+
+  const applyAudioRate = () => {
+      const audio = audioRef.current as (HTMLAudioElement & { mozPreservesPitch?: boolean; webkitPreservesPitch?: boolean }) | null;
+      if (!audio) return;
+      const rate = getLoopRate();
+      if (audio.playbackRate !== rate) audio.playbackRate = rate;
+      if (!audio.preservesPitch) {
+          audio.preservesPitch = true;
+          audio.mozPreservesPitch = true;
+          audio.webkitPreservesPitch = true;
+      }
+  };
+
+  useEffect(() => {
+      applyAudioRate();
+      // The simulation clock and speech utterances bake the rate (and voice) in when they start, so restart them
+      if (isPlaying && !material.audioUrl) startSimulation(currentTime);
+  }, [playbackRate, rampLoops, voiceURI, speechEnabled]);
+
   // --- High Precision Loop (Core Logic) ---
   useEffect(() => {
     if (isPlaying && material.audioUrl) {
+      // Left Gap Mode while holding in a gap: carry on playing
+      if (playbackMode !== 'gap' && gapUntilRef.current !== null) {
+          gapUntilRef.current = null;
+          setIsGapPause(false);
+          audioRef.current?.play().catch(e => console.error("Playback error", e));
+      }
+
       const check = () => {
         if (audioRef.current) {
+           applyAudioRate(); // Cheap no-op unless the loop pass (and so the ramp rate) changed
            const t = audioRef.current.currentTime;
            const idx = activeIndexRef.current;
            
@@ -97,8 +393,9 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
                if (t >= endTime - 0.15) {
                    // Increment count
                    playCountRef.current += 1;
+                   recordLoop(idx);
 
-                   if (playCountRef.current < loopSetting) {
+                   if (playCountRef.current < getLoopLimit()) {
                        // Loop Again: Rewind to start and Keep Playing
                        audioRef.current.currentTime = startTime;
                    } else {
@@ -108,6 +405,31 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
                        setCurrentTime(startTime);
                        setIsPlaying(false);
                        playCountRef.current = 0; // Reset for next interaction
+                       loopsFinishedRef.current(idx);
+                   }
+               }
+           }
+
+           // Logic for GAP MODE: the article runs on, but holds after each sentence
+           if (playbackMode === 'gap') {
+               const audio = audioRef.current;
+               if (gapUntilRef.current !== null) {
+                   // Resume when the gap is over, or drop it if something else restarted playback
+                   if (!audio.paused || performance.now() >= gapUntilRef.current) {
+                       gapUntilRef.current = null;
+                       setIsGapPause(false);
+                       if (audio.paused) audio.play().catch(e => console.error("Playback error", e));
+                   }
+               } else {
+                   const gapIdx = segmentIndexAt(t);
+                   const seg = material.segments[gapIdx];
+                   if (seg && t < seg.endTime - 0.3 && gapDoneRef.current === gapIdx) {
+                       gapDoneRef.current = -1; // Rewound into the sentence: pause after it again
+                   } else if (seg && gapIdx < material.segments.length - 1 && t >= seg.endTime - 0.1 && gapDoneRef.current !== gapIdx) {
+                       gapDoneRef.current = gapIdx;
+                       audio.pause();
+                       gapUntilRef.current = performance.now() + getGapMs(seg);
+                       setIsGapPause(true);
                    }
                }
            }
@@ -120,16 +442,30 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
     return () => {
         if (preciseCheckRef.current) cancelAnimationFrame(preciseCheckRef.current);
     };
-  }, [isPlaying, playbackMode, loopSetting, material.audioUrl, material.segments]);
+  }, [isPlaying, playbackMode, loopSetting, gapSetting, material.audioUrl, material.segments]);
 
 
   // --- Simulation Mode (Mock) ---
-  const startSimulation = (startTimeOffset: number) => {
+  const stopSimulation = () => {
     if (simulationRef.current) window.clearInterval(simulationRef.current);
-    const startTimestamp = Date.now() - (startTimeOffset * 1000);
+    if (gapTimerRef.current) window.clearTimeout(gapTimerRef.current);
+    gapTimerRef.current = null;
+    setIsGapPause(false);
+    cancelSpeechRef.current?.();
+    cancelSpeechRef.current = null;
+  };
+
+  const startSimulation = (startTimeOffset: number) => {
+    stopSimulation();
+    if (speechSettingsRef.current.speechEnabled && isSpeechSupported()) {
+        startSpeech(startTimeOffset);
+        return;
+    }
+    const startTimestamp = Date.now();
+    const rate = getLoopRate();
     
     simulationRef.current = window.setInterval(() => {
-        const newTime = (Date.now() - startTimestamp) / 1000;
+        const newTime = startTimeOffset + ((Date.now() - startTimestamp) / 1000) * rate;
         
         // Sim Loop Logic
         if (playbackMode === 'sentence' && activeIndexRef.current !== -1) {
@@ -138,18 +474,39 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
 
             if (newTime >= seg.endTime) {
                  playCountRef.current += 1;
-                 if (playCountRef.current < loopSetting) {
+                 recordLoop(idx);
+                 if (playCountRef.current < getLoopLimit()) {
                      startSimulation(seg.startTime);
                  } else {
                      if (simulationRef.current) window.clearInterval(simulationRef.current);
                      setIsPlaying(false);
                      setCurrentTime(seg.startTime);
                      playCountRef.current = 0;
+                     loopsFinishedRef.current(idx);
                  }
                  return;
             }
         }
 
+        // Gap Mode: hold at the end of each sentence, then continue from there
+        if (playbackMode === 'gap') {
+            const gapIdx = segmentIndexAt(newTime);
+            const seg = material.segments[gapIdx];
+            if (seg && newTime < seg.endTime - 0.3 && gapDoneRef.current === gapIdx) {
+                gapDoneRef.current = -1;
+            } else if (seg && gapIdx < material.segments.length - 1 && newTime >= seg.endTime && gapDoneRef.current !== gapIdx) {
+                gapDoneRef.current = gapIdx;
+                if (simulationRef.current) window.clearInterval(simulationRef.current);
+                setCurrentTime(seg.endTime);
+                setIsGapPause(true);
+                gapTimerRef.current = window.setTimeout(() => {
+                    gapTimerRef.current = null;
+                    startSimulation(seg.endTime);
+                }, getGapMs(seg));
+                return;
+            }
+        }
+
         if (newTime >= duration && duration > 0) {
             setIsPlaying(false);
             setCurrentTime(0);
@@ -160,13 +517,99 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
     }, 100);
   };
 
+  // --- Text-to-Speech Mode ---
+  useEffect(() => {
+    if (material.audioUrl || !isSpeechSupported()) return;
+    let cancelled = false;
+    loadVoices().then(list => {
+        if (cancelled) return;
+        setVoices(sortVoicesForPractice(list));
+        // Lessons generated with an accent are read in a matching voice
+        const voice = pickVoiceForLang(list, material.lang, getPreferredVoiceURI());
+        if (voice) setVoiceURI(voice.voiceURI);
+    });
+    return () => { cancelled = true; };
+  }, [material.audioUrl, material.lang]);
+
+  // Speech can't seek inside an utterance, so playback always (re)starts at a sentence boundary
+  const startSpeech = (fromTime: number) => {
+    const idx = playbackMode === 'sentence' && activeIndexRef.current !== -1
+        ? activeIndexRef.current
+        : material.segments.findIndex(s => fromTime < s.endTime);
+    if (idx === -1) {
+        setIsPlaying(false);
+        setCurrentTime(0);
+        return;
+    }
+    speakSegment(idx);
+  };
+
+  const speakSegment = (idx: number) => {
+    const seg = material.segments[idx];
+    const length = seg.endTime - seg.startTime;
+    setCurrentTime(seg.startTime);
+    if (rolePlaySpeaker && seg.speaker === rolePlaySpeaker) {
+        // The learner says this line: leave a silence as long as the voice would have taken
+        const timer = window.setTimeout(() => speechEndRef.current(idx), (length / getLoopRate()) * 1000);
+        cancelSpeechRef.current = () => window.clearTimeout(timer);
+        return;
+    }
+    cancelSpeechRef.current = speak(seg.text, {
+        voiceURI: speechSettingsRef.current.voiceURI,
+        rate: getLoopRate(),
+        // Map the spoken character position onto the segment's time span so the cursor and scroll sync follow along
+        onBoundary: (charIndex) => setCurrentTime(seg.startTime + (charIndex / Math.max(1, seg.text.length)) * length * 0.99),
+        onEnd: () => speechEndRef.current(idx),
+    });
+  };
+
+  // Mirrors the sentence-loop logic of the audio and simulation paths
+  speechEndRef.current = (idx: number) => {
+    cancelSpeechRef.current = null;
+    const seg = material.segments[idx];
+
+    if (playbackMode === 'sentence' && activeIndexRef.current !== -1) {
+        playCountRef.current += 1;
+        recordLoop(idx);
+        if (playCountRef.current < getLoopLimit()) {
+            speakSegment(idx);
+        } else {
+            setIsPlaying(false);
+            setCurrentTime(seg.startTime);
+            playCountRef.current = 0;
+            loopsFinishedRef.current(idx);
+        }
+    } else if (idx + 1 < material.segments.length) {
+        if (playbackMode === 'gap') {
+            setIsGapPause(true);
+            gapTimerRef.current = window.setTimeout(() => {
+                gapTimerRef.current = null;
+                setIsGapPause(false);
+                speakSegment(idx + 1);
+            }, getGapMs(seg));
+        } else {
+            speakSegment(idx + 1);
+        }
+    } else {
+        setIsPlaying(false);
+        setCurrentTime(0);
+    }
+  };
+
+  const handleVoiceChange = (uri: string | null) => {
+      setVoiceURI(uri);
+      setPreferredVoiceURI(uri);
+  };
+
   // --- Playback Controls ---
 
   const togglePlay = () => {
-    if (isUserPlaying && userAudioRef.current) {
-        userAudioRef.current.pause();
-        setIsUserPlaying(false);
+    // Any transport press ends a running drill
+    if (drillRef.current) {
+        stopDrill();
+        return;
     }
+    if (playingTakeId) stopUserRecording();
 
     if (material.audioUrl) {
       if (!audioRef.current) return;
@@ -174,6 +617,8 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
       if (isPlaying) {
         audioRef.current.pause();
         setIsPlaying(false);
+        gapUntilRef.current = null;
+        setIsGapPause(false);
       } else {
         // Reset play count if we are starting fresh (optional, but good for UX)
         // If we are resumed in middle, maybe don't reset? 
@@ -186,7 +631,7 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
       }
     } else {
       if (isPlaying) {
-        if (simulationRef.current) window.clearInterval(simulationRef.current);
+        stopSimulation();
         setIsPlaying(false);
       } else {
         setIsPlaying(true);
@@ -198,8 +643,13 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
   const replayCurrent = () => {
       if (activeIndexRef.current === -1) return;
       
-      const targetTime = material.segments[activeIndexRef.current].startTime;
+      const targetSeg = material.segments[activeIndexRef.current];
+      const targetTime = targetSeg.startTime;
       playCountRef.current = 0; // Reset loop count on manual replay
+
+      const replays = (replayCountsRef.current[targetSeg.id] || 0) + 1;
+      replayCountsRef.current[targetSeg.id] = replays;
+      if (replays >= AUTO_FLAG_REPLAYS) autoFlag(targetSeg.id);
       
       if (material.audioUrl && audioRef.current) {
           audioRef.current.currentTime = targetTime;
@@ -296,7 +746,10 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
     // However, in Sentence Mode, we manually set activeIndexRef when skipping/clicking.
     // The only time this useEffect is critical is for Article Mode where time flows freely.
     if (idx !== -1 && idx !== activeIndex) {
-        if (playbackMode === 'article') {
+        if (playbackMode !== 'sentence') {
+            // Flowing on into the next sentence means the previous one was heard in full
+            const previous = material.segments[activeIndex];
+            if (isPlaying && previous && idx === activeIndex + 1) completedIdsRef.current.add(previous.id);
             activeIndexRef.current = idx;
             setActiveIndex(idx);
         }
@@ -313,13 +766,198 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
   useEffect(() => {
     return () => {
       if (simulationRef.current) window.clearInterval(simulationRef.current);
+      cancelSpeechRef.current?.();
       if (preciseCheckRef.current) cancelAnimationFrame(preciseCheckRef.current);
     };
   }, []);
 
+  // --- Review Flags ---
+  const toggleFlag = () => {
+      const seg = material.segments[activeIndex];
+      if (!seg) return;
+      const flagged = flaggedIds.has(seg.id);
+      if (flagged) unflagSegment(material.id, seg.id);
+      else flagSegment(material.id, seg.id, 'manual');
+      setFlaggedIds(prev => {
+          const next = new Set(prev);
+          if (flagged) next.delete(seg.id);
+          else next.add(seg.id);
+          return next;
+      });
+  };
+
+  const autoFlag = (segmentId: string) => {
+      if (flaggedIds.has(segmentId)) return;
+      flagSegment(material.id, segmentId, 'auto');
+      setFlaggedIds(prev => new Set(prev).add(segmentId));
+  };
+
+  // --- Progressive Reveal ---
+  const peekWord = (segmentId: string, partIndex: number) => {
+      const peeks = (peekCounts[segmentId] || 0) + 1;
+      setRevealedWords(prev => ({ ...prev, [segmentId]: [...(prev[segmentId] || []), partIndex] }));
+      setPeekCounts(prev => ({ ...prev, [segmentId]: peeks }));
+      if (peeks >= AUTO_FLAG_PEEKS) autoFlag(segmentId);
+  };
+
+  const cycleBlurHint = () => {
+      setBlurHint(prev => {
+          if (prev === 'full') return 'first-letter';
+          if (prev === 'first-letter') return 'content-words';
+          if (prev === 'content-words') return 'length';
+          return 'full';
+      });
+  };
+
+  const renderBlurredWord = (part: string, partIndex: number, seg: Segment, isActive: boolean) => {
+      if (!part.trim()) return <span key={partIndex}>{part}</span>;
+      if (revealedWords[seg.id]?.includes(partIndex)) {
+          return renderLookupWord(part, partIndex, seg, isActive, 'text-sky-200');
+      }
+
+      let content: React.ReactNode = <span className="structure-blur">{part}</span>;
+      if (blurHint === 'first-letter') {
+          const firstLetter = part.search(/[\p{L}\p{N}]/u);
+          content = firstLetter === -1 ? part : (
+              <>{part.slice(0, firstLetter + 1)}<span className="structure-blur">{part.slice(firstLetter + 1)}</span></>
+          );
+      } else if (blurHint === 'content-words' && isFunctionWord(part)) {
+          return renderLookupWord(part, partIndex, seg, isActive); // Left visible by this hint level
+      } else if (blurHint === 'length') {
+          content = <span className="text-zinc-500 select-none">{toLengthPlaceholder(part)}</span>;
+      }
+
+      // Only words in the active sentence can be peeked; clicking elsewhere still selects the sentence
+      return (
+          <span
+              key={partIndex}
+              onClick={isActive ? (e) => { e.stopPropagation(); peekWord(seg.id, partIndex); } : undefined}
+              className={isActive ? 'cursor-help rounded-sm hover:bg-white/5' : undefined}
+          >
+              {content}
+          </span>
+      );
+  };
+
+  // --- Word Lookup ---
+  const openLookup = (word: string, seg: Segment, target: HTMLElement) => {
+      if (!normalizeWord(word)) return;
+      setLookup({ word, segment: seg, anchor: target.getBoundingClientRect() });
+  };
+
+  const cancelLongPress = () => {
+      if (longPressRef.current.timer) window.clearTimeout(longPressRef.current.timer);
+      longPressRef.current.timer = null;
+  };
+
+  // Visible words open a definition: click in the active sentence, long-press anywhere
+  const renderLookupWord = (part: string, partIndex: number, seg: Segment, isActive: boolean, className = '') => {
+      if (!part.trim()) return <span key={partIndex}>{part}</span>;
+      return (
+          <span
+              key={partIndex}
+              onClick={(e) => {
+                  if (longPressRef.current.fired) {
+                      e.stopPropagation();
+                      longPressRef.current.fired = false;
+                      return;
+                  }
+                  if (!isActive) return; // Clicking an inactive sentence still selects it
+                  e.stopPropagation();
+                  openLookup(part, seg, e.currentTarget);
+              }}
+              onPointerDown={(e) => {
+                  const target = e.currentTarget;
+                  cancelLongPress();
+                  longPressRef.current.fired = false;
+                  longPressRef.current.timer = window.setTimeout(() => {
+                      longPressRef.current.timer = null;
+                      longPressRef.current.fired = true;
+                      openLookup(part, seg, target);
+                  }, LONG_PRESS_MS);
+              }}
+              onPointerUp={cancelLongPress}
+              onPointerLeave={cancelLongPress}
+              onContextMenu={(e) => e.preventDefault()}
+              className={`${className} ${isActive ? 'cursor-pointer rounded-sm hover:bg-white/10' : ''}`}
+          >
+              {part}
+          </span>
+      );
+  };
+
+  // --- Dictation ---
+  // Dictation needs the pause after each sentence, so it always drills sentence by sentence
+  useEffect(() => {
+    if (viewMode === 'dictation') setPlaybackMode('sentence');
+  }, [viewMode]);
+
+  useEffect(() => {
+    setAwaitingDictation(false);
+  }, [activeIndex]);
+
+  loopsFinishedRef.current = (index: number) => {
+    if (drillRef.current) {
+      recordDrillTake(index);
+      return;
+    }
+    if (viewMode === 'dictation' && !dictationResults[material.segments[index]?.id]) {
+      setAwaitingDictation(true);
+    }
+  };
+
+  const submitDictation = (typed: string) => {
+    const seg = material.segments[activeIndex];
+    if (!seg) return;
+    const result = scoreDictation(seg.id, seg.text, typed);
+    setDictationResults(prev => ({ ...prev, [seg.id]: result }));
+    if (result.accuracy < AUTO_FLAG_DICTATION_ACCURACY) autoFlag(seg.id);
+    setAwaitingDictation(false);
+  };
+
+  const advanceDictation = () => {
+    if (activeIndex >= material.segments.length - 1) {
+      setShowDictationSummary(true);
+    } else {
+      skipToSegment('next');
+    }
+  };
+
+  const retryDictation = (segment: Segment) => {
+      setShowDictationSummary(false);
+      setDictationResults(prev => {
+          const next = { ...prev };
+          delete next[segment.id];
+          return next;
+      });
+      handleSegmentClick(segment);
+  };
+
   // --- Shadowing Handlers ---
+  const storeTake = (segmentId: string, blob: Blob): RecordingTake => {
+      const take: RecordingTake = {
+          id: `${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+          materialId: material.id,
+          segmentId,
+          blob,
+          createdAt: Date.now(),
+          chosen: false,
+      };
+      setUserRecordings(prev => ({ ...prev, [segmentId]: [...(prev[segmentId] ?? []), take] }));
+      if (sessionRef.current) sessionRef.current.recordings += 1;
+      saveRecording(take).catch(e => {
+          console.error("Failed to save recording", e);
+          alert("This take could not be saved and will be lost when you leave.");
+      });
+      return take;
+  };
+
   const toggleRecording = async () => {
     if (activeIndex === -1) return;
+    // During a drill the mic button only ends the current take early
+    if (drillRef.current && !isRecording) return;
+    // Role-play records the learner's lines itself
+    if (rolePlayRef.current) return;
 
     if (isRecording) {
         mediaRecorderRef.current?.stop();
@@ -334,10 +972,8 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
             
             mediaRecorder.ondataavailable = (e) => chunks.push(e.data);
             mediaRecorder.onstop = () => {
-                const blob = new Blob(chunks, { type: 'audio/webm' });
-                const currentSegId = material.segments[activeIndexRef.current].id;
-                setUserRecordings(prev => ({ ...prev, [currentSegId]: blob }));
                 stream.getTracks().forEach(track => track.stop());
+                storeTake(material.segments[activeIndexRef.current].id, new Blob(chunks, { type: 'audio/webm' }));
             };
             
             mediaRecorderRef.current = mediaRecorder;
@@ -350,61 +986,256 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
     }
   };
 
-  const playUserRecording = () => {
-      if (activeIndex === -1) return;
-      const segId = material.segments[activeIndex].id;
-      const blob = userRecordings[segId];
-      if (!blob) return;
+  const stopUserRecording = () => {
+      const player = userAudioRef.current;
+      if (player) {
+          player.pause();
+          if (player.src) URL.revokeObjectURL(player.src);
+          player.removeAttribute('src');
+      }
+      setPlayingTakeId(null);
+  };
+
+  const playUserRecording = (take: RecordingTake, onEnded?: () => void) => {
+      const wasPlaying = playingTakeId === take.id;
+      stopUserRecording();
+      if (wasPlaying) return;
 
       if (isPlaying && audioRef.current) {
           audioRef.current.pause();
           setIsPlaying(false);
       }
 
-      const url = URL.createObjectURL(blob);
       if (userAudioRef.current) {
-          userAudioRef.current.src = url;
+          userAudioRef.current.src = URL.createObjectURL(take.blob);
           userAudioRef.current.play();
-          setIsUserPlaying(true);
+          setPlayingTakeId(take.id);
           userAudioRef.current.onended = () => {
-              setIsUserPlaying(false);
-              URL.revokeObjectURL(url);
+              stopUserRecording();
+              onEnded?.();
           };
       }
   };
 
-  const deleteUserRecording = () => {
-      if (activeIndex === -1) return;
-      const segId = material.segments[activeIndex].id;
-      const newRecs = { ...userRecordings };
-      delete newRecs[segId];
-      setUserRecordings(newRecs);
+  const chooseUserRecording = async (take: RecordingTake) => {
+      try {
+          const updated = await chooseRecording(userRecordings[take.segmentId] ?? [], take.id);
+          setUserRecordings(prev => ({ ...prev, [take.segmentId]: updated }));
+      } catch (e) {
+          console.error("Failed to update recording", e);
+      }
+  };
+
+  const deleteUserRecording = async (take: RecordingTake) => {
+      if (playingTakeId === take.id) stopUserRecording();
+      try {
+          await deleteRecording(take.id);
+          setUserRecordings(prev => {
+              const remaining = (prev[take.segmentId] ?? []).filter(t => t.id !== take.id);
+              const next = { ...prev, [take.segmentId]: remaining };
+              if (remaining.length === 0) delete next[take.segmentId];
+              return next;
+          });
+      } catch (e) {
+          console.error("Failed to delete recording", e);
+      }
+  };
+
+  // --- Hands-free Drill ---
+  const startDrill = async () => {
+      if (drillRef.current || rolePlayRef.current || isRecording) return;
+      if (isPlaying) togglePlay();
+      try {
+          const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+          drillRef.current = { stream, timer: null };
+      } catch (err) {
+          console.error("Mic access denied", err);
+          alert("Microphone access is needed for shadowing.");
+          return;
+      }
+      listenDrillSegment(Math.max(0, activeIndexRef.current));
   };
 
-  const handleExport = async () => {
-      const orderedBlobs: Blob[] = [];
-      let hasRecordings = false;
-      for (const seg of material.segments) {
-          if (userRecordings[seg.id]) {
-              orderedBlobs.push(userRecordings[seg.id]);
-              hasRecordings = true;
+  const stopDrill = () => {
+      const drill = drillRef.current;
+      if (!drill) return;
+      drillRef.current = null;
+      if (drill.timer) window.clearTimeout(drill.timer);
+      if (mediaRecorderRef.current?.state === 'recording') mediaRecorderRef.current.stop();
+      drill.stream.getTracks().forEach(track => track.stop());
+      audioRef.current?.pause();
+      stopSimulation();
+      stopUserRecording();
+      playCountRef.current = 0;
+      setIsPlaying(false);
+      setIsRecording(false);
+      setDrillPhase(null);
+  };
+
+  // --- Quiz ---
+  const handleQuizChange = (next: QuizQuestion[]) => {
+      setQuiz(next);
+      onQuizChange?.(next);
+  };
+
+  // A wrong answer sends the learner back to the sentence that holds the answer
+  const replayQuizSegment = (segment: Segment) => {
+      setShowQuiz(false);
+      stopDrill();
+      handleSegmentClick(segment);
+      const idx = material.segments.findIndex(s => s.id === segment.id);
+      segmentRefs.current[idx]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const listenDrillSegment = (idx: number) => {
+      setDrillPhase('listen');
+      handleSegmentClick(material.segments[idx]);
+  };
+
+  // Called once the sentence has played loopSetting times
+  const recordDrillTake = (idx: number) => {
+      const drill = drillRef.current;
+      const seg = material.segments[idx];
+      if (!drill || !seg) return;
+
+      const chunks: BlobPart[] = [];
+      const recorder = new MediaRecorder(drill.stream);
+      recorder.ondataavailable = (e) => chunks.push(e.data);
+      recorder.onstop = () => {
+          setIsRecording(false);
+          if (drill.timer) window.clearTimeout(drill.timer);
+          drill.timer = null;
+          if (drillRef.current !== drill) return; // Drill was stopped mid-take
+          const take = storeTake(seg.id, new Blob(chunks, { type: 'audio/webm' }));
+          setDrillPhase('playback');
+          playUserRecording(take, () => advanceDrill(idx));
+      };
+      mediaRecorderRef.current = recorder;
+      recorder.start();
+      setIsRecording(true);
+      setDrillPhase('record');
+
+      // Learners speak at natural speed, so only the chosen playback rate scales the window
+      const seconds = (seg.endTime - seg.startTime) / rateSettingsRef.current.playbackRate + DRILL_RECORD_MARGIN;
+      drill.timer = window.setTimeout(() => {
+          drill.timer = null;
+          if (recorder.state === 'recording') recorder.stop();
+      }, seconds * 1000);
+  };
+
+  const advanceDrill = (idx: number) => {
+      if (!drillRef.current) return;
+      // With infinite loops the drill keeps cycling the same sentence until stopped
+      const next = rateSettingsRef.current.loopSetting === Infinity ? idx : idx + 1;
+      if (next >= material.segments.length) {
+          stopDrill();
+          return;
+      }
+      listenDrillSegment(next);
+  };
+
+  // A drill only makes sense sentence by sentence
+  useEffect(() => {
+      if (playbackMode !== 'sentence') stopDrill();
+  }, [playbackMode]);
+
+  useEffect(() => () => stopDrill(), [material]);
+
+  // --- Role-play ---
+  const speakers = getSpeakers(material.segments);
+
+  const startRolePlay = async (speaker: string) => {
+      if (isRecording || drillRef.current) return;
+      if (rolePlayRef.current && !rolePlayRef.current.stream) return; // Still waiting for the microphone
+      if (!rolePlayRef.current) {
+          if (isPlaying) togglePlay();
+          const pending: RolePlayState = { stream: null, take: null };
+          rolePlayRef.current = pending;
+          try {
+              const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+              // Stopped, or moved on to another material, while the permission prompt was open
+              if (rolePlayRef.current !== pending) {
+                  stream.getTracks().forEach(track => track.stop());
+                  return;
+              }
+              pending.stream = stream;
+          } catch (err) {
+              if (rolePlayRef.current === pending) rolePlayRef.current = null;
+              console.error("Mic access denied", err);
+              alert("Microphone access is needed for role-play.");
+              return;
           }
       }
-      if (!hasRecordings) {
+      // The conversation has to run on from line to line
+      if (playbackMode === 'sentence') setPlaybackMode('article');
+      setRolePlaySpeaker(speaker);
+  };
+
+  const stopRolePlay = () => {
+      const rolePlay = rolePlayRef.current;
+      if (!rolePlay) return;
+      rolePlayRef.current = null;
+      if (rolePlay.take?.recorder.state === 'recording') rolePlay.take.recorder.stop();
+      rolePlay.stream?.getTracks().forEach(track => track.stop());
+      if (audioRef.current) audioRef.current.muted = false;
+      setRolePlaySpeaker(null);
+  };
+
+  // Off → each speaker in turn → off
+  const cycleRolePlay = () => {
+      const next = speakers[rolePlaySpeaker ? speakers.indexOf(rolePlaySpeaker) + 1 : 0];
+      if (next) startRolePlay(next);
+      else stopRolePlay();
+  };
+
+  // Mutes the learner's lines and records one take per line while it plays
+  useEffect(() => {
+      const seg = material.segments[activeIndex];
+      const isOwnLine = !!rolePlaySpeaker && !!seg && seg.speaker === rolePlaySpeaker;
+      if (audioRef.current) audioRef.current.muted = isOwnLine;
+
+      const rolePlay = rolePlayRef.current;
+      if (!rolePlay?.stream) return;
+      if (rolePlay.take && (!isOwnLine || !isPlaying || rolePlay.take.segmentId !== seg.id)) {
+          if (rolePlay.take.recorder.state === 'recording') rolePlay.take.recorder.stop();
+          rolePlay.take = null;
+      }
+      if (isOwnLine && isPlaying && !rolePlay.take) {
+          const chunks: BlobPart[] = [];
+          const recorder = new MediaRecorder(rolePlay.stream);
+          recorder.ondataavailable = (e) => chunks.push(e.data);
+          recorder.onstop = () => storeTake(seg.id, new Blob(chunks, { type: 'audio/webm' }));
+          recorder.start();
+          rolePlay.take = { recorder, segmentId: seg.id };
+      }
+  }, [activeIndex, rolePlaySpeaker, isPlaying]);
+
+  useEffect(() => {
+      if (playbackMode === 'sentence') stopRolePlay();
+  }, [playbackMode]);
+
+  useEffect(() => () => stopRolePlay(), [material]);
+
+  const handleExport = async ({ mode, gapSeconds }: RecordingExportOptions) => {
+      const pairs = material.segments
+          .map(seg => ({ seg, take: getChosenTake(userRecordings[seg.id]) }))
+          .filter((pair): pair is { seg: Segment; take: RecordingTake } => !!pair.take);
+      if (pairs.length === 0) {
           alert("No recordings found to export.");
           return;
       }
       setIsExporting(true);
       try {
-          const wavBlob = await mergeAudioBlobs(orderedBlobs);
-          const url = URL.createObjectURL(wavBlob);
-          const a = document.createElement('a');
-          a.href = url;
-          a.download = `practice-${material.title.slice(0, 20)}.wav`;
-          document.body.appendChild(a);
-          a.click();
-          document.body.removeChild(a);
-          URL.revokeObjectURL(url);
+          const original = mode === 'interleaved' ? await decodeAudio(material.audioUrl) : null;
+          const clips: AudioClip[] = [];
+          for (const { seg, take } of pairs) {
+              // Each original sentence is followed directly by the take; the gap separates pairs
+              if (original) clips.push({ buffer: original, startTime: seg.startTime, endTime: seg.endTime });
+              clips.push({ buffer: await decodeAudio(take.blob), silenceAfter: gapSeconds });
+          }
+          const wavBlob = mergeAudioClips(clips);
+          const prefix = mode === 'interleaved' ? 'shadowing' : 'practice';
+          downloadBlob(wavBlob, `${prefix}-${toFileName(material.title, 20)}.wav`);
       } catch (e) {
           console.error("Export failed", e);
           alert("Failed to create audio file.");
@@ -417,6 +1248,7 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
       setViewMode(prev => {
           if (prev === 'visible') return 'blur';
           if (prev === 'blur') return 'blind';
+          if (prev === 'blind') return 'dictation';
           return 'visible';
       });
   };
@@ -424,7 +1256,16 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
   const getViewModeIcon = () => {
       if (viewMode === 'visible') return <Eye size={20} />;
       if (viewMode === 'blur') return <AlignJustify size={20} />;
-      return <EyeOff size={20} />;
+      if (viewMode === 'blind') return <EyeOff size={20} />;
+      return <Keyboard size={20} />;
+  };
+
+  const cyclePlaybackMode = () => {
+      setPlaybackMode(prev => {
+          if (prev === 'article') return 'sentence';
+          if (prev === 'sentence') return 'gap';
+          return 'article';
+      });
   };
 
   const cycleLoopSetting = () => {
@@ -442,7 +1283,8 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
   };
 
   // --- Render ---
-  const hasCurrentRecording = activeIndex !== -1 && !!userRecordings[material.segments[activeIndex]?.id];
+  const currentTakes = activeIndex !== -1 ? userRecordings[material.segments[activeIndex]?.id] : undefined;
+  const comparingTake = currentTakes?.find(t => t.id === comparingTakeId);
 
   return (
     <div className="fixed inset-0 z-50 bg-[#09090b] flex flex-col animate-in fade-in duration-300">
@@ -452,11 +1294,53 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
           ref={audioRef}
           src={material.audioUrl}
           onTimeUpdate={handleTimeUpdate}
-          onEnded={() => setIsPlaying(false)}
+          onLoadedMetadata={() => {
+            // Start at the preselected sentence or resume position instead of 0:00
+            if (audioRef.current && audioRef.current.currentTime === 0 && startTimeRef.current > 0) {
+              audioRef.current.currentTime = Math.min(startTimeRef.current, audioRef.current.duration || Infinity);
+            }
+          }}
+          onEnded={() => {
+            const last = material.segments[material.segments.length - 1];
+            if (last) completedIdsRef.current.add(last.id);
+            setIsPlaying(false);
+          }}
         />
       )}
       <audio ref={userAudioRef} />
 
+      {lookup && (
+        <WordPopover
+          word={lookup.word}
+          materialId={material.id}
+          segment={lookup.segment}
+          anchor={lookup.anchor}
+          onClose={() => setLookup(null)}
+        />
+      )}
+
+      {showQuiz && (
+        <QuizPanel
+          material={material}
+          quiz={quiz}
+          answers={quizAnswers}
+          onAnswer={(questionId, optionIndex) => setQuizAnswers(prev => ({ ...prev, [questionId]: optionIndex }))}
+          onReset={() => setQuizAnswers({})}
+          onReplay={replayQuizSegment}
+          onClose={() => setShowQuiz(false)}
+          onQuizChange={onQuizChange ? handleQuizChange : undefined}
+        />
+      )}
+
+      {showDictationSummary && (
+        <DictationSummary
+          segments={material.segments}
+          results={dictationResults}
+          onSelect={retryDictation}
+          onClose={() => setShowDictationSummary(false)}
+        />
+      )}
+
       {/* --- Top Navbar --- */}
       <header className="flex-none px-4 py-4 md:px-6 flex items-center justify-between z-10 bg-zinc-950/80 backdrop-blur-md border-b border-white/5">
         <button 
@@ -473,9 +1357,63 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
             >
                 {getViewModeIcon()}
                 <span className="text-xs font-medium uppercase hidden md:inline">
-                    {viewMode === 'visible' ? 'Full Text' : viewMode === 'blur' ? 'Blur Mode' : 'Blind Mode'}
+                    {viewMode === 'visible' ? 'Full Text' : viewMode === 'blur' ? 'Blur Mode' : viewMode === 'blind' ? 'Blind Mode' : 'Dictation'}
                 </span>
             </button>
+            {viewMode === 'blur' && (
+                <button
+                    onClick={cycleBlurHint}
+                    className={`flex items-center gap-2 px-3 py-1.5 rounded-full transition-colors ${blurHint === 'full' ? 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700' : 'bg-amber-400/15 text-amber-300 hover:bg-amber-400/25'}`}
+                    title="Change how much of each word is shown"
+                >
+                    <Lightbulb size={16} />
+                    <span className="text-xs font-medium uppercase hidden md:inline">{BLUR_HINT_LABELS[blurHint]}</span>
+                </button>
+            )}
+            {viewMode === 'dictation' && Object.keys(dictationResults).length > 0 && (
+                <button
+                    onClick={() => setShowDictationSummary(true)}
+                    className="w-10 h-10 flex items-center justify-center text-orange-400 hover:bg-white/10 rounded-full transition-colors"
+                    title="Dictation Summary"
+                >
+                    <Trophy size={18} />
+                </button>
+            )}
+            {!reviewControls && (quiz.length > 0 || onQuizChange) && (
+                <button
+                    onClick={() => setShowQuiz(true)}
+                    className="w-10 h-10 flex items-center justify-center text-zinc-400 hover:text-white hover:bg-white/10 rounded-full transition-colors"
+                    title="Comprehension quiz"
+                >
+                    <ListChecks size={18} />
+                </button>
+            )}
+            {!reviewControls && speakers.length > 1 && !drillPhase && (
+                <button
+                    onClick={cycleRolePlay}
+                    className={`flex items-center gap-2 px-3 py-1.5 rounded-full transition-colors ${rolePlaySpeaker ? 'bg-red-500/15 text-red-300 hover:bg-red-500/25' : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'}`}
+                    title="Role-play: speak one speaker's lines yourself"
+                >
+                    <Users size={16} />
+                    <span className="text-xs font-medium uppercase hidden md:inline">{rolePlaySpeaker ? `You: ${rolePlaySpeaker}` : 'Role-play'}</span>
+                </button>
+            )}
+            <ReaderSettings
+                playbackRate={playbackRate}
+                onPlaybackRateChange={setPlaybackRate}
+                rampLoops={rampLoops}
+                onRampLoopsChange={setRampLoops}
+                gap={gapSetting}
+                onGapChange={setGapSetting}
+                speech={!material.audioUrl && isSpeechSupported() ? {
+                    enabled: speechEnabled,
+                    onEnabledChange: setSpeechEnabled,
+                    voices,
+                    voiceURI,
+                    onVoiceChange: handleVoiceChange,
+                } : undefined}
+            />
+            <ExportMenu material={material} />
         </div>
       </header>
 
@@ -490,7 +1428,10 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
             <div className="space-y-4">
               {material.segments.map((seg, index) => {
                 const isActive = index === activeIndex;
-                const hasRec = !!userRecordings[seg.id];
+                const hasRec = !!userRecordings[seg.id]?.length;
+                const isOwnLine = !!rolePlaySpeaker && seg.speaker === rolePlaySpeaker;
+                // Name the speaker at the start of each turn
+                const showSpeaker = !!seg.speaker && seg.speaker !== material.segments[index - 1]?.speaker;
                 
                 return (
                   <div 
@@ -502,16 +1443,40 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
                         ${isActive ? 'bg-zinc-800/40 border-zinc-700/50 shadow-lg' : 'opacity-60 hover:opacity-100 hover:bg-zinc-900'}
                     `}
                   >
+                     {showSpeaker && (
+                         <span className={`block text-[10px] font-bold uppercase tracking-wider mb-1 ${SPEAKER_COLORS[speakers.indexOf(seg.speaker!) % SPEAKER_COLORS.length]}`}>
+                             {seg.speaker}{isOwnLine && <span className="text-red-400"> · Your lines</span>}
+                         </span>
+                     )}
                      <p className={`text-xl md:text-2xl font-serif leading-relaxed transition-all duration-500 ${isActive ? 'text-zinc-100' : 'text-zinc-400'}`}>
-                        {seg.text.split(/(\s+)/).map((part, i) => {
-                             let className = "";
-                             if (viewMode === 'blind') className = "bg-zinc-700 text-zinc-700 rounded-sm select-none";
-                             // Apply blur to everything in Blur Mode
-                             else if (viewMode === 'blur') className = "structure-blur";
-                             
-                             return <span key={i} className={className}>{part}</span>;
+                        {viewMode === 'dictation' && dictationResults[seg.id] ? (
+                             <DiffText diff={dictationResults[seg.id].diff} />
+                        ) : seg.text.split(/(\s+)/).map((part, i) => {
+                             // In role-play the learner's own lines are their script, so they stay readable
+                             if (isOwnLine && viewMode !== 'dictation') return renderLookupWord(part, i, seg, isActive);
+
+                             // Blur Mode applies the current hint level and lets words be peeked one at a time
+                             if (viewMode === 'blur') return renderBlurredWord(part, i, seg, isActive);
+
+                             // Dictation hides the sentence like Blind Mode until it has been answered
+                             if (viewMode === 'blind' || viewMode === 'dictation') {
+                                 return <span key={i} className="bg-zinc-700 text-zinc-700 rounded-sm select-none">{part}</span>;
+                             }
+
+                             return renderLookupWord(part, i, seg, isActive);
                         })}
                      </p>
+                     {!!peekCounts[seg.id] && (
+                         <div className="absolute right-3 top-1.5 flex items-center gap-1 text-[10px] font-bold text-amber-400/80" title={`${peekCounts[seg.id]} word(s) peeked`}>
+                             <Eye size={10} />
+                             {peekCounts[seg.id]}
+                         </div>
+                     )}
+                     {flaggedIds.has(seg.id) && (
+                         <div className="absolute right-3 bottom-1.5 text-orange-400/80" title="In your review deck">
+                             <Flag size={10} fill="currentColor" />
+                         </div>
+                     )}
                      {hasRec && (
                          <div className="absolute right-3 top-1/2 -translate-y-1/2 w-1.5 h-1.5 rounded-full bg-sky-500 shadow-[0_0_8px_rgba(14,165,233,0.8)]" />
                      )}
@@ -525,32 +1490,93 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
       {/* --- Bottom Controls --- */}
       <div className="flex-none bg-[#1c1c1e] border-t border-white/5 pb-6 pt-2">
          
-         {/* User Audio Bar */}
-         {hasCurrentRecording && (
+         {/* Original vs. Take Comparison */}
+         {comparingTake && material.audioUrl && (
+             <TakeComparison
+                 audioUrl={material.audioUrl}
+                 segment={material.segments[activeIndex]}
+                 take={comparingTake}
+                 onClose={() => setComparingTakeId(null)}
+             />
+         )}
+
+         {/* User Takes Bar */}
+         {currentTakes && currentTakes.length > 0 && (
+             <RecordingTakes
+                 takes={currentTakes}
+                 playingTakeId={playingTakeId}
+                 onPlay={playUserRecording}
+                 onChoose={chooseUserRecording}
+                 onDelete={deleteUserRecording}
+                 comparingTakeId={comparingTake?.id ?? null}
+                 onCompare={material.audioUrl ? (take) => {
+                     if (isPlaying) togglePlay();
+                     setComparingTakeId(id => id === take.id ? null : take.id);
+                 } : undefined}
+             />
+         )}
+
+         {/* Dictation Input / Result */}
+         {viewMode === 'dictation' && activeIndex !== -1 && (awaitingDictation || dictationResults[material.segments[activeIndex]?.id]) && (
+             <DictationPanel
+                 segment={material.segments[activeIndex]}
+                 result={dictationResults[material.segments[activeIndex].id]}
+                 onSubmit={submitDictation}
+                 onReplay={replayCurrent}
+                 onNext={advanceDictation}
+                 isLast={activeIndex === material.segments.length - 1}
+             />
+         )}
+
+         {/* Gap Mode Pause */}
+         {isGapPause && (
+             <div className="mx-auto max-w-2xl px-4 mb-2">
+                 <div className="flex items-center gap-3 bg-zinc-800/50 rounded-lg p-2 px-3 border border-zinc-700/50">
+                    <div className="w-2 h-2 rounded-full bg-amber-400 animate-pulse" />
+                    <span className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">Repeat aloud</span>
+                    <span className="text-[10px] text-zinc-500">The next sentence starts automatically</span>
+                 </div>
+             </div>
+         )}
+
+         {/* Role-play Status */}
+         {rolePlaySpeaker && (
              <div className="mx-auto max-w-2xl px-4 mb-2">
                  <div className="flex items-center justify-between bg-zinc-800/50 rounded-lg p-2 px-3 border border-zinc-700/50">
                     <div className="flex items-center gap-3">
-                        <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
-                        <span className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">Your Recording</span>
+                        <div className={`w-2 h-2 rounded-full ${isPlaying && material.segments[activeIndex]?.speaker === rolePlaySpeaker ? 'bg-red-500 animate-pulse' : 'bg-sky-500'}`} />
+                        <span className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+                            {isPlaying && material.segments[activeIndex]?.speaker === rolePlaySpeaker ? 'Your line: speak now' : `Role-play as ${rolePlaySpeaker}`}
+                        </span>
+                        <span className="text-[10px] text-zinc-500">Each of your lines is saved as a take</span>
                     </div>
-                    <div className="flex items-center gap-2">
-                         <button 
-                           onClick={playUserRecording}
-                           className="p-1.5 bg-zinc-700 hover:bg-zinc-600 rounded-md text-white transition-colors"
-                         >
-                            {isUserPlaying ? <Square size={14} fill="currentColor" /> : <Play size={14} fill="currentColor" />}
-                         </button>
-                         <button 
-                           onClick={deleteUserRecording}
-                           className="p-1.5 hover:bg-red-500/20 text-zinc-500 hover:text-red-500 rounded-md transition-colors"
-                         >
-                            <Trash2 size={14} />
-                         </button>
+                    <button onClick={stopRolePlay} className="text-xs font-semibold text-zinc-400 hover:text-white px-2 py-1 rounded-md hover:bg-white/10">
+                        Stop
+                    </button>
+                 </div>
+             </div>
+         )}
+
+         {/* Drill Status */}
+         {drillPhase && (
+             <div className="mx-auto max-w-2xl px-4 mb-2">
+                 <div className="flex items-center justify-between bg-zinc-800/50 rounded-lg p-2 px-3 border border-zinc-700/50">
+                    <div className="flex items-center gap-3">
+                        <div className={`w-2 h-2 rounded-full ${drillPhase === 'record' ? 'bg-red-500 animate-pulse' : drillPhase === 'listen' ? 'bg-sky-500' : 'bg-emerald-500'}`} />
+                        <span className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+                            {drillPhase === 'listen' ? 'Listen' : drillPhase === 'record' ? 'Your turn: speak now' : 'Hear yourself'}
+                        </span>
+                        <span className="text-[10px] text-zinc-500">Sentence {activeIndex + 1} of {material.segments.length}</span>
                     </div>
+                    <button onClick={stopDrill} className="text-xs font-semibold text-zinc-400 hover:text-white px-2 py-1 rounded-md hover:bg-white/10">
+                        Stop
+                    </button>
                  </div>
              </div>
          )}
 
+         {reviewControls}
+
          {/* Main Control Deck */}
          <div className="max-w-xl mx-auto px-6 grid grid-cols-[1fr_auto_1fr] items-center gap-4">
             
@@ -558,14 +1584,14 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
             <div className="flex items-center gap-2">
                 {/* Playback Mode Toggle */}
                 <button 
-                    onClick={() => setPlaybackMode(m => m === 'article' ? 'sentence' : 'article')}
+                    onClick={cyclePlaybackMode}
                     className={`
                         p-2 rounded-xl transition-all
                         ${playbackMode === 'article' ? 'bg-zinc-800 text-zinc-400' : 'bg-sky-500/20 text-sky-400'}
                     `}
-                    title={playbackMode === 'article' ? "Switch to Sentence Mode" : "Switch to Article Mode"}
+                    title={playbackMode === 'article' ? "Switch to Sentence Mode" : playbackMode === 'sentence' ? "Switch to Gap Mode" : "Switch to Article Mode"}
                 >
-                    {playbackMode === 'article' ? <BookOpen size={18} /> : <MessageSquare size={18} />}
+                    {playbackMode === 'article' ? <BookOpen size={18} /> : playbackMode === 'sentence' ? <MessageSquare size={18} /> : <Hourglass size={18} />}
                 </button>
 
                 {/* Loop Counter (Only in Sentence Mode) */}
@@ -578,6 +1604,18 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
                         <span className="text-[9px] font-bold uppercase mt-0.5">{getLoopLabel()}</span>
                     </button>
                 )}
+
+                {/* Hands-free Drill (Only in Sentence Mode) */}
+                {playbackMode === 'sentence' && (
+                    <button
+                        onClick={() => drillPhase ? stopDrill() : startDrill()}
+                        disabled={isRecording && !drillPhase}
+                        className={`w-10 h-10 flex items-center justify-center rounded-xl transition-colors disabled:opacity-30 ${drillPhase ? 'bg-red-500/20 text-red-400' : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'}`}
+                        title={drillPhase ? "Stop Hands-free Drill" : "Hands-free Drill: listen, repeat, hear yourself"}
+                    >
+                        <Headset size={16} />
+                    </button>
+                )}
             </div>
 
             {/* Center: Transport Controls */}
@@ -606,16 +1644,21 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
                  </button>
             </div>
 
-            {/* Right: Mic & Export */}
+            {/* Right: Flag, Mic & Export */}
             <div className="flex items-center justify-end gap-2">
-                <button 
-                  onClick={handleExport}
-                  disabled={isExporting}
-                  className="w-10 h-10 flex items-center justify-center text-zinc-500 hover:text-white hover:bg-white/10 rounded-full transition-colors"
-                  title="Export Recording"
+                <button
+                  onClick={toggleFlag}
+                  disabled={activeIndex === -1}
+                  className={`w-10 h-10 flex items-center justify-center rounded-full transition-colors disabled:opacity-30 ${activeIndex !== -1 && flaggedIds.has(material.segments[activeIndex]?.id) ? 'text-orange-400 hover:bg-orange-400/10' : 'text-zinc-500 hover:text-white hover:bg-white/10'}`}
+                  title="Add to Review Deck"
                 >
-                   <Download size={18} />
+                   <Flag size={18} fill={activeIndex !== -1 && flaggedIds.has(material.segments[activeIndex]?.id) ? 'currentColor' : 'none'} />
                 </button>
+                <RecordingExportMenu
+                  canInterleave={!!material.audioUrl}
+                  isExporting={isExporting}
+                  onExport={handleExport}
+                />
 
                 <button 
                     onClick={toggleRecording}
@@ -0,0 +1,175 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, RotateCcw, SkipForward, X, Trophy } from 'lucide-react';
+import { Segment } from '../types';
+import { DictationResult, WordDiff } from '../utils/dictation';
+
+const DIFF_STYLES: Record<WordDiff['kind'], string> = {
+  correct: 'text-emerald-300',
+  misspelled: 'text-amber-300 underline decoration-wavy decoration-amber-500/60',
+  missing: 'text-red-400 bg-red-500/10 rounded px-0.5',
+  extra: 'text-zinc-500 line-through',
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const DiffText: React.FC<{ diff: WordDiff[] }> = ({ diff }) => (
+  <>
+    {diff.map((d, i) => (
+      <React.Fragment key={i}>
+        <span
+          className={DIFF_STYLES[d.kind]}
+          title={d.kind === 'misspelled' ? `You typed "${d.typed}"` : d.kind === 'missing' ? 'Missed' : d.kind === 'extra' ? 'Not in the sentence' : undefined}
+        >
+          {d.kind === 'extra' ? d.typed : d.expected}
+        </span>{' '}
+      </React.Fragment>
+    ))}
+  </>
+);
+
+interface DictationPanelProps {
+  segment: Segment;
+  result?: DictationResult;
+  onSubmit: (typed: string) => void;
+  onReplay: () => void;
+  onNext: () => void;
+  isLast: boolean;
+}
+
+export const DictationPanel: React.FC<DictationPanelProps> = ({ segment, result, onSubmit, onReplay, onNext, isLast }) => {
+  const [typed, setTyped] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setTyped('');
+    if (!result) inputRef.current?.focus();
+  }, [segment.id, result]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && typed.trim()) {
+      e.preventDefault();
+      onSubmit(typed);
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-2xl px-4 mb-2">
+      <div className="bg-zinc-800/50 rounded-lg p-3 border border-zinc-700/50 space-y-2">
+        {result ? (
+          <>
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">Accuracy</span>
+              <span className={`text-sm font-bold ${result.accuracy >= 0.9 ? 'text-emerald-400' : result.accuracy >= 0.6 ? 'text-amber-400' : 'text-red-400'}`}>
+                {formatPercent(result.accuracy)}
+              </span>
+            </div>
+            <p className="text-base font-serif leading-relaxed"><DiffText diff={result.diff} /></p>
+            <div className="flex justify-end gap-2">
+              <button onClick={onReplay} className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-zinc-700 hover:bg-zinc-600 text-xs text-white">
+                <RotateCcw size={12} /> Listen again
+              </button>
+              <button onClick={onNext} className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-sky-500 hover:bg-sky-400 text-xs font-semibold text-white">
+                {isLast ? <><Trophy size={12} /> See summary</> : <><SkipForward size={12} /> Next sentence</>}
+              </button>
+            </div>
+          </>
+        ) : (
+          <div className="flex items-center gap-2">
+            <input
+              ref={inputRef}
+              value={typed}
+              onChange={(e) => setTyped(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Type what you heard, then press Enter..."
+              className="flex-1 bg-black/40 border border-zinc-700 rounded-md px-3 py-2 text-sm text-white focus:outline-none focus:border-sky-500"
+            />
+            <button onClick={onReplay} className="p-2 rounded-md bg-zinc-700 hover:bg-zinc-600 text-white" title="Listen again">
+              <RotateCcw size={14} />
+            </button>
+            <button
+              onClick={() => typed.trim() && onSubmit(typed)}
+              disabled={!typed.trim()}
+              className="p-2 rounded-md bg-sky-500 hover:bg-sky-400 text-white disabled:opacity-40"
+              title="Check"
+            >
+              <Check size={14} strokeWidth={3} />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface DictationSummaryProps {
+  segments: Segment[];
+  results: Record<string, DictationResult>;
+  onSelect: (segment: Segment) => void;
+  onClose: () => void;
+}
+
+export const DictationSummary: React.FC<DictationSummaryProps> = ({ segments, results, onSelect, onClose }) => {
+  const attempted = segments.filter(s => results[s.id]);
+  const average = attempted.length > 0
+    ? attempted.reduce((acc, s) => acc + results[s.id].accuracy, 0) / attempted.length
+    : 0;
+  const counts = attempted.reduce(
+    (acc, s) => {
+      results[s.id].diff.forEach(d => { if (d.kind !== 'correct') acc[d.kind]++; });
+      return acc;
+    },
+    { missing: 0, extra: 0, misspelled: 0 }
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-lg bg-[#1c1c1e] rounded-3xl border border-zinc-800 shadow-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-zinc-800 sticky top-0 bg-[#1c1c1e]">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <Trophy size={20} className="text-orange-400" />
+            Dictation Summary
+          </h2>
+          <button onClick={onClose} className="p-2 text-zinc-500 hover:text-white hover:bg-white/10 rounded-full transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-4 gap-3 text-center">
+            <div className="col-span-4 sm:col-span-1 rounded-xl bg-zinc-900/50 border border-zinc-800 p-3">
+              <div className="text-2xl font-bold text-white">{formatPercent(average)}</div>
+              <div className="text-[10px] uppercase tracking-wider text-zinc-500">Average</div>
+            </div>
+            {(['missing', 'misspelled', 'extra'] as const).map(kind => (
+              <div key={kind} className="col-span-4 sm:col-span-1 rounded-xl bg-zinc-900/50 border border-zinc-800 p-3">
+                <div className={`text-2xl font-bold ${DIFF_STYLES[kind].split(' ')[0]}`}>{counts[kind]}</div>
+                <div className="text-[10px] uppercase tracking-wider text-zinc-500">{kind}</div>
+              </div>
+            ))}
+          </div>
+
+          <p className="text-xs text-zinc-500">{attempted.length} of {segments.length} sentences attempted. Tap a sentence to practise it again.</p>
+
+          <div className="space-y-2">
+            {segments.map((seg, i) => {
+              const result = results[seg.id];
+              return (
+                <button
+                  key={seg.id}
+                  onClick={() => onSelect(seg)}
+                  className="w-full flex gap-3 p-3 rounded-xl bg-zinc-900/50 border border-zinc-800 hover:border-zinc-600 text-left"
+                >
+                  <span className="text-xs font-mono text-zinc-500 w-8 flex-shrink-0">#{i + 1}</span>
+                  <span className="flex-1 text-sm font-serif">
+                    {result ? <DiffText diff={result.diff} /> : <span className="text-zinc-600 italic">Not attempted</span>}
+                  </span>
+                  {result && <span className="text-xs font-bold text-zinc-300">{formatPercent(result.accuracy)}</span>}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
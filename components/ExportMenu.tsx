@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { FileDown, Captions, Package, Loader2 } from 'lucide-react';
+import { Material } from '../types';
+import { getAudio } from '../services/materialStore';
+import { formatSrt, formatVtt } from '../utils/subtitles';
+import { createMaterialBundle } from '../utils/materialBundle';
+import { downloadBlob, toFileName } from '../utils/fileUtils';
+
+interface ExportMenuProps {
+  material: Material;
+}
+
+// Stored bytes win; otherwise try the URL itself (works for same-origin or CORS-enabled audio)
+const resolveAudio = async (material: Material): Promise<Blob | null> => {
+  try {
+    const stored = await getAudio(material.id);
+    if (stored) return stored;
+  } catch (e) {
+    console.warn("Could not read stored audio", e);
+  }
+  if (!material.audioUrl) return null;
+  try {
+    const response = await fetch(material.audioUrl);
+    return response.ok ? await response.blob() : null;
+  } catch (e) {
+    console.warn("Could not fetch audio for bundle", e);
+    return null;
+  }
+};
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ material }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isBundling, setIsBundling] = useState(false);
+  const baseName = toFileName(material.title);
+
+  const exportSubtitles = (format: 'srt' | 'vtt') => {
+    const content = format === 'srt' ? formatSrt(material.segments) : formatVtt(material.segments);
+    const type = format === 'srt' ? 'application/x-subrip' : 'text/vtt';
+    downloadBlob(new Blob([content], { type }), `${baseName}.${format}`);
+    setIsOpen(false);
+  };
+
+  const exportBundle = async () => {
+    setIsBundling(true);
+    try {
+      const audio = await resolveAudio(material);
+      if (!audio && material.audioUrl) {
+        alert("The audio could not be included, so the bundle only contains the text and timings.");
+      }
+      const bundle = await createMaterialBundle(material, audio);
+      downloadBlob(bundle, `${baseName}.blurlisten.json`);
+    } catch (e) {
+      console.error("Bundle export failed", e);
+      alert("Failed to create the bundle.");
+    }
+    setIsBundling(false);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        className="w-10 h-10 flex items-center justify-center text-zinc-400 hover:text-white hover:bg-white/10 rounded-full transition-colors"
+        title="Export Material"
+      >
+        {isBundling ? <Loader2 size={18} className="animate-spin" /> : <FileDown size={18} />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-12 w-56 bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl overflow-hidden z-20">
+          <button onClick={() => exportSubtitles('srt')} className="w-full flex items-center gap-3 px-4 py-3 text-sm text-zinc-200 hover:bg-zinc-800 text-left">
+            <Captions size={16} className="text-zinc-400" /> Subtitles (.srt)
+          </button>
+          <button onClick={() => exportSubtitles('vtt')} className="w-full flex items-center gap-3 px-4 py-3 text-sm text-zinc-200 hover:bg-zinc-800 text-left">
+            <Captions size={16} className="text-zinc-400" /> WebVTT (.vtt)
+          </button>
+          <button onClick={exportBundle} disabled={isBundling} className="w-full flex items-center gap-3 px-4 py-3 text-sm text-zinc-200 hover:bg-zinc-800 text-left border-t border-zinc-800 disabled:opacity-50">
+            <Package size={16} className="text-zinc-400" />
+            <span>
+              Lesson bundle (.json)
+              <span className="block text-[10px] text-zinc-500">Audio + timings, for sharing</span>
+            </span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { ACCENT_LABELS, Accent, CEFR_LEVELS, GenerationOptions, MAX_SPEAKERS, REGISTER_LABELS, Register, SEGMENT_COUNT_RANGE, cefrToDifficulty } from '../services/aiProvider';
+
+interface GenerationOptionsPanelProps {
+  options: GenerationOptions;
+  onChange: (options: GenerationOptions) => void;
+}
+
+const SectionLabel: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <label className="text-[10px] font-semibold uppercase text-zinc-500 tracking-wider block mb-2">{children}</label>
+);
+
+const chipClassName = (active: boolean) =>
+  `py-1.5 rounded-md text-xs font-bold transition-colors ${active ? 'bg-sky-500 text-white' : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'}`;
+
+export const GenerationOptionsPanel: React.FC<GenerationOptionsPanelProps> = ({ options, onChange }) => {
+  // Kept as typed so commas and spaces aren't swallowed mid-edit
+  const [focusInput, setFocusInput] = useState(options.focus.join(', '));
+
+  const update = (patch: Partial<GenerationOptions>) => onChange({ ...options, ...patch });
+
+  const handleFocusChange = (value: string) => {
+    setFocusInput(value);
+    update({ focus: value.split(',').map(f => f.trim()).filter(Boolean) });
+  };
+
+  return (
+    <div className="relative mt-3 bg-[#1c1c1e] rounded-2xl p-4 border border-white/5 space-y-4 animate-in fade-in duration-200">
+      <div>
+        <SectionLabel>Level · {cefrToDifficulty(options.level)}</SectionLabel>
+        <div className="grid grid-cols-6 gap-1">
+          {CEFR_LEVELS.map(level => (
+            <button type="button" key={level} onClick={() => update({ level })} className={chipClassName(options.level === level)}>
+              {level}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <SectionLabel>Style</SectionLabel>
+        <div className="grid grid-cols-4 gap-1">
+          {(Object.keys(REGISTER_LABELS) as Register[]).map(register => (
+            <button type="button" key={register} onClick={() => update({ register })} className={chipClassName(options.register === register)}>
+              {REGISTER_LABELS[register]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <SectionLabel>Accent</SectionLabel>
+        <div className="grid grid-cols-2 gap-1">
+          {(Object.keys(ACCENT_LABELS) as Accent[]).map(accent => (
+            <button type="button" key={accent} onClick={() => update({ accent })} className={chipClassName(options.accent === accent)}>
+              {ACCENT_LABELS[accent]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <SectionLabel>Sentences · {options.segmentCount}</SectionLabel>
+          <input
+            type="range"
+            min={SEGMENT_COUNT_RANGE.min}
+            max={SEGMENT_COUNT_RANGE.max}
+            value={options.segmentCount}
+            onChange={(e) => update({ segmentCount: Number(e.target.value) })}
+            className="w-full accent-sky-500"
+          />
+        </div>
+        {options.register === 'conversation' && (
+          <div>
+            <SectionLabel>Speakers</SectionLabel>
+            <div className="grid grid-cols-3 gap-1">
+              {Array.from({ length: MAX_SPEAKERS - 1 }, (_, i) => i + 2).map(count => (
+                <button type="button" key={count} onClick={() => update({ speakers: count })} className={chipClassName(options.speakers === count)}>
+                  {count}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <SectionLabel>Grammar or vocabulary focus</SectionLabel>
+        <input
+          type="text"
+          value={focusInput}
+          onChange={(e) => handleFocusChange(e.target.value)}
+          placeholder="e.g. present perfect, phrasal verbs with 'get'"
+          className="w-full bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-sky-500 placeholder:text-zinc-600"
+        />
+        <p className="text-[10px] text-zinc-500 mt-1">Separate items with commas.</p>
+      </div>
+    </div>
+  );
+};
@@ -1,38 +1,41 @@
 
 import React, { useState, useRef } from 'react';
-import { X, Upload, FileAudio, FileText, Check, Loader2, Music, Clock } from 'lucide-react';
+import { X, Upload, FileAudio, FileText, Check, Loader2, Music, Clock, Captions, ArrowLeft, Package } from 'lucide-react';
 import { Material, Segment } from '../types';
+import { decodeAudio, formatTimestamp } from '../utils/audioUtils';
+import { CONFIDENCE_STYLES, TimedSentence, alignSentencesToPauses, detectPauses, getConfidenceLevel, proportionalTimings } from '../utils/alignment';
+import { splitIntoSentences } from '../utils/textUtils';
+import { cuesToSentences, parseSubtitleFile } from '../utils/subtitles';
+import { readMaterialBundle } from '../utils/materialBundle';
+import { validateMaterial } from '../utils/materialValidation';
+import { assignSpeakerPrefixes } from '../utils/speakers';
+
+interface ImportPreview {
+  material: Material;
+  audio: Blob | null;
+  fromBundle: boolean; // Bundles are already aligned, so they skip the alignment editor
+  repairs: string[]; // What validation fixed or dropped
+}
 
 interface ImportWizardProps {
   onClose: () => void;
-  onImport: (material: Material) => void;
+  onImport: (material: Material, audio?: Blob, openAlignment?: boolean) => void;
 }
 
-// Strict Sentence Splitting using Intl.Segmenter
-// This avoids breaking sentences at commas, ensuring "Sentence Mode" works correctly.
-const splitIntoSentences = (text: string): string[] => {
-  // Normalize whitespace
-  const normalized = text.replace(/\s+/g, ' ').trim();
-  
-  if (typeof Intl !== 'undefined' && (Intl as any).Segmenter) {
-      const segmenter = new (Intl as any).Segmenter('en', { granularity: 'sentence' });
-      const segments = [...segmenter.segment(normalized)];
-      return segments.map((s: any) => s.segment.trim()).filter(s => s.length > 0);
-  }
-
-  // Fallback regex for browsers without Segmenter support
-  // Splits on . ! ? or Chinese equivalents, keeping the punctuation.
-  const processed = normalized.replace(/([.!?。！？])/g, "$1|");
-  return processed.split('|').map(s => s.trim()).filter(s => s.length > 0);
-};
-
 export const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport }) => {
   const [title, setTitle] = useState('');
   const [text, setText] = useState('');
   const [audioFile, setAudioFile] = useState<File | null>(null);
   const [offset, setOffset] = useState<string>('0'); 
   const [isProcessing, setIsProcessing] = useState(false);
+  const [alignAfterImport, setAlignAfterImport] = useState(true);
+  const [subtitleFile, setSubtitleFile] = useState<{ name: string; content: string } | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
   const audioInputRef = useRef<HTMLInputElement>(null);
+  const subtitleInputRef = useRef<HTMLInputElement>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+
+  const hasTranscript = !!text.trim() || !!subtitleFile;
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -40,14 +43,79 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport })
     }
   };
 
+  const handleSubtitleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file after clearing it
+    if (!file) return;
+
+    try {
+      const content = await file.text();
+      parseSubtitleFile(file.name, content); // Validate early so errors show up on selection
+      setSubtitleFile({ name: file.name, content });
+      if (!title) setTitle(file.name.replace(/\.[^.]+$/, ''));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Could not read subtitle file.");
+    }
+  };
+
+  const discardPreview = () => {
+    if (preview?.material.audioUrl.startsWith('blob:')) URL.revokeObjectURL(preview.material.audioUrl);
+    setPreview(null);
+  };
+
+  const handleClose = () => {
+    discardPreview();
+    onClose();
+  };
+
+  const confirmImport = () => {
+    if (!preview) return;
+    onImport(preview.material, preview.audio ?? undefined, alignAfterImport && !preview.fromBundle);
+  };
+
+  const handleBundleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsProcessing(true);
+    try {
+      const { material, audio, repairs } = await readMaterialBundle(await file.text());
+      setPreview({
+        material: {
+          ...material,
+          // Fresh id so importing the same bundle twice doesn't collide
+          id: `custom-${Date.now()}`,
+          audioUrl: audio ? URL.createObjectURL(audio) : material.audioUrl,
+        },
+        audio,
+        fromBundle: true,
+        repairs,
+      });
+    } catch (error) {
+      console.error("Bundle import failed", error);
+      alert(error instanceof Error ? error.message : "Failed to read bundle.");
+    }
+    setIsProcessing(false);
+  };
+
   const processImport = async () => {
-    if (!title || !text || !audioFile) return;
+    if (!title || !hasTranscript || !audioFile) return;
     setIsProcessing(true);
 
+    // Handed over to the preview on success; revoked if any step below fails
+    const audioUrl = URL.createObjectURL(audioFile);
     try {
-      const audioUrl = URL.createObjectURL(audioFile);
+      // Decode once up front: the buffer gives us both the duration and the pauses.
+      // Some containers can't be decoded by Web Audio, in which case we only read the metadata.
+      let buffer: AudioBuffer | null = null;
+      try {
+        buffer = await decodeAudio(audioFile);
+      } catch (e) {
+        console.warn("Could not decode audio for pause detection, using proportional timing", e);
+      }
 
-      const duration = await new Promise<number>((resolve, reject) => {
+      const duration = buffer ? buffer.duration : await new Promise<number>((resolve, reject) => {
         const audio = new Audio(audioUrl);
         audio.onloadedmetadata = () => resolve(audio.duration);
         audio.onerror = () => reject("Could not load audio");
@@ -58,40 +126,48 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport })
         throw new Error("Offset cannot be longer than the audio duration.");
       }
 
-      // Split by Sentence strictly
-      const cleanedSegments = splitIntoSentences(text);
-      
-      if (cleanedSegments.length === 0) {
-          throw new Error("Could not find any text segments.");
+      let timed: TimedSentence[];
+      if (subtitleFile) {
+        // Subtitle cues carry real timings, so no estimation is needed; just regroup into sentences
+        timed = cuesToSentences(parseSubtitleFile(subtitleFile.name, subtitleFile.content, duration));
+      } else {
+        // Split by Sentence strictly
+        const cleanedSegments = splitIntoSentences(text);
+
+        if (cleanedSegments.length === 0) {
+            throw new Error("Could not find any text segments.");
+        }
+
+        // Calculate Timestamps: snap to detected pauses when possible,
+        // otherwise fall back to proportional distribution by character count.
+        // Either way the result can be fine-tuned afterwards in the AlignmentEditor.
+        const pauses = buffer ? detectPauses(buffer) : [];
+        timed = pauses.length > 0
+          ? alignSentencesToPauses(cleanedSegments, pauses, offsetSeconds, duration)
+          : proportionalTimings(cleanedSegments, offsetSeconds, duration);
       }
+      // Dialogue transcripts written as "Name: ..." get their speakers from the prefixes
+      timed = assignSpeakerPrefixes(timed);
 
-      // Calculate Timestamps (Proportional Distribution)
-      // Note: This is an estimation. Real apps would need manual alignment tools.
-      const effectiveDuration = duration - offsetSeconds;
-      const totalChars = cleanedSegments.reduce((acc, s) => acc + s.length, 0);
-      
-      let currentTime = offsetSeconds; 
-      
-      const segments: Segment[] = cleanedSegments.map((s, i) => {
-        const segmentDuration = totalChars > 0 ? (s.length / totalChars) * effectiveDuration : 0;
-        const seg: Segment = {
-          id: `imp-${Date.now()}-${i}`,
-          text: s,
-          startTime: currentTime,
-          endTime: currentTime + segmentDuration
-        };
-        currentTime += segmentDuration;
-        return seg;
-      });
+      const segments: Segment[] = timed.map((t, i) => ({
+        id: `imp-${Date.now()}-${i}`,
+        text: t.text,
+        startTime: t.startTime,
+        endTime: t.endTime,
+        confidence: t.confidence,
+        speaker: t.speaker
+      }));
 
       const minutes = Math.floor(duration / 60);
       const seconds = Math.floor(duration % 60);
       const durationStr = `${minutes}:${seconds.toString().padStart(2, '0')}`;
 
+      const transcript = subtitleFile ? timed.map(t => t.text).join(' ') : text;
+
       const newMaterial: Material = {
         id: `custom-${Date.now()}`,
         title,
-        description: text.slice(0, 150).replace(/\s+/g, ' ') + (text.length > 150 ? "..." : ""),
+        description: transcript.slice(0, 150).replace(/\s+/g, ' ') + (transcript.length > 150 ? "..." : ""),
         category: "Imported",
         difficulty: "Medium",
         duration: durationStr,
@@ -100,12 +176,18 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport })
         segments
       };
 
-      onImport(newMaterial);
+      // Subtitle files in particular can carry overlapping or out-of-range cues
+      const { material, repairs, rejected } = validateMaterial(newMaterial, { maxTime: duration });
+      if (!material) {
+        throw new Error(`Nothing usable to import: ${rejected.join(' ')}`);
+      }
+      setPreview({ material, audio: audioFile, fromBundle: false, repairs: [...repairs, ...rejected] });
     } catch (error) {
+      URL.revokeObjectURL(audioUrl);
       console.error("Import failed", error);
       alert(error instanceof Error ? error.message : "Failed to process audio file.");
-      setIsProcessing(false);
     }
+    setIsProcessing(false);
   };
 
   return (
@@ -119,15 +201,68 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport })
             Import Session
           </h2>
           <button 
-            onClick={onClose}
+            onClick={handleClose}
             className="p-2 text-zinc-500 hover:text-white hover:bg-white/10 rounded-full transition-colors"
           >
             <X size={20} />
           </button>
         </div>
 
-        {/* Body */}
+        {/* Preview */}
+        {preview ? (
+        <div className="p-6 space-y-3">
+          <p className="text-xs text-zinc-500">
+            <span className="text-zinc-300 font-semibold">{preview.material.title}</span> · {preview.material.segments.length} sentences · {preview.material.duration}.{' '}
+            {preview.fromBundle ? "Timings come from the bundle." : "Check the sentence split before creating the session."}
+          </p>
+          {preview.repairs.length > 0 && (
+            <details className="text-xs text-orange-200 bg-orange-500/10 border border-orange-500/30 rounded-xl p-3">
+              <summary className="cursor-pointer">{preview.repairs.length} problem{preview.repairs.length === 1 ? ' was' : 's were'} fixed automatically</summary>
+              <ul className="mt-2 space-y-1 list-disc pl-4 text-orange-200/80">
+                {preview.repairs.map((note, i) => <li key={i}>{note}</li>)}
+              </ul>
+            </details>
+          )}
+          {preview.material.segments.map((seg, i) => (
+            <div key={seg.id} className="flex gap-3 p-3 rounded-xl bg-zinc-900/50 border border-zinc-800">
+              <span className="text-[10px] font-mono text-zinc-500 w-16 flex-shrink-0 pt-0.5 leading-relaxed">
+                #{i + 1}<br />{formatTimestamp(seg.startTime)}<br />{formatTimestamp(seg.endTime)}
+              </span>
+              <p className="text-sm text-zinc-300 flex-1">
+                {seg.speaker && <span className="text-sky-400 font-semibold">{seg.speaker}: </span>}
+                {seg.text}
+              </p>
+              {seg.confidence !== undefined && (
+                <span
+                  className={`w-2 h-2 rounded-full flex-shrink-0 mt-1.5 ${CONFIDENCE_STYLES[getConfidenceLevel(seg.confidence)]}`}
+                  title={`Auto-alignment confidence: ${Math.round(seg.confidence * 100)}%`}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+        ) : (
+        /* Body */
         <div className="p-6 space-y-6">
+          {/* Bundle Shortcut */}
+          <button
+            onClick={() => bundleInputRef.current?.click()}
+            className="w-full flex items-center gap-3 p-3 rounded-xl bg-zinc-900/50 border border-zinc-800 hover:border-zinc-600 text-left transition-colors"
+          >
+            <Package size={18} className="text-sky-500 flex-shrink-0" />
+            <span className="text-sm text-zinc-300">
+              Have a lesson bundle from a teacher?
+              <span className="block text-xs text-zinc-500">Open the .json file to import it with its audio and timings.</span>
+            </span>
+          </button>
+          <input
+            ref={bundleInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleBundleChange}
+          />
+
           {/* Title Input */}
           <div className="space-y-2">
             <label className="text-xs font-semibold uppercase text-zinc-500 tracking-wider">Session Title</label>
@@ -178,65 +313,132 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport })
 
           {/* Offset Config */}
           <div className="p-4 rounded-xl bg-zinc-900/50 border border-zinc-800 space-y-2">
-             <label className="text-xs font-semibold uppercase text-zinc-500 tracking-wider block">Intro Offset (s)</label>
-             <div className="flex items-center gap-2">
-                <Clock size={16} className="text-zinc-400" />
-                <input 
-                  type="number" 
-                  min="0"
-                  value={offset}
-                  onChange={(e) => setOffset(e.target.value)}
-                  className="w-full bg-black/50 border border-zinc-700 rounded-lg px-2 py-1 text-white text-sm focus:border-sky-500 focus:outline-none"
+             {!subtitleFile && (
+               <>
+                 <label className="text-xs font-semibold uppercase text-zinc-500 tracking-wider block">Intro Offset (s)</label>
+                 <div className="flex items-center gap-2">
+                    <Clock size={16} className="text-zinc-400" />
+                    <input 
+                      type="number" 
+                      min="0"
+                      value={offset}
+                      onChange={(e) => setOffset(e.target.value)}
+                      className="w-full bg-black/50 border border-zinc-700 rounded-lg px-2 py-1 text-white text-sm focus:border-sky-500 focus:outline-none"
+                    />
+                 </div>
+                 <p className="text-[10px] text-zinc-500 pt-1">Skip intro music/silence to better align text.</p>
+               </>
+             )}
+             <label className="flex items-center gap-2 pt-2 text-xs text-zinc-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={alignAfterImport}
+                  onChange={(e) => setAlignAfterImport(e.target.checked)}
+                  className="accent-sky-500"
                 />
-             </div>
-             <p className="text-[10px] text-zinc-500 pt-1">Skip intro music/silence to better align text.</p>
+                Fine-tune sentence timings after import
+             </label>
           </div>
 
           {/* Transcript Input */}
           <div className="space-y-2">
-            <label className="text-xs font-semibold uppercase text-zinc-500 tracking-wider">Transcript</label>
-            <div className="relative">
-              <textarea 
-                value={text}
-                onChange={(e) => setText(e.target.value)}
-                placeholder="Paste the full transcript here. We will split it into sentences for you..."
-                className="w-full h-32 bg-zinc-900/50 border border-zinc-700 rounded-xl p-4 text-sm text-zinc-300 focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500 transition-all placeholder:text-zinc-600 resize-none"
+            <div className="flex items-center justify-between">
+              <label className="text-xs font-semibold uppercase text-zinc-500 tracking-wider">Transcript</label>
+              <button
+                onClick={() => subtitleInputRef.current?.click()}
+                className="flex items-center gap-1.5 text-xs font-semibold text-sky-500 hover:text-sky-400 transition-colors"
+              >
+                <Captions size={14} />
+                Load subtitles
+              </button>
+              <input
+                ref={subtitleInputRef}
+                type="file"
+                accept=".srt,.vtt,.lrc,text/vtt"
+                className="hidden"
+                onChange={handleSubtitleChange}
               />
-              <FileText className="absolute bottom-4 right-4 text-zinc-600 pointer-events-none" size={16} />
             </div>
+            {subtitleFile ? (
+              <div className="flex items-center gap-3 bg-sky-500/10 border border-sky-500/50 rounded-xl p-4">
+                <Captions className="text-sky-400 flex-shrink-0" size={20} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sky-200 font-medium truncate">{subtitleFile.name}</p>
+                  <p className="text-sky-500/60 text-xs mt-0.5">Timings are taken from the subtitle cues.</p>
+                </div>
+                <button
+                  onClick={() => setSubtitleFile(null)}
+                  className="p-1.5 text-zinc-400 hover:text-white hover:bg-white/10 rounded-full transition-colors"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            ) : (
+              <div className="relative">
+                <textarea 
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  placeholder="Paste the full transcript here, or load an SRT, WebVTT or LRC file. We will split it into sentences for you..."
+                  className="w-full h-32 bg-zinc-900/50 border border-zinc-700 rounded-xl p-4 text-sm text-zinc-300 focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500 transition-all placeholder:text-zinc-600 resize-none"
+                />
+                <FileText className="absolute bottom-4 right-4 text-zinc-600 pointer-events-none" size={16} />
+              </div>
+            )}
           </div>
         </div>
+        )}
 
         {/* Footer */}
         <div className="p-6 pt-0 flex items-center justify-end gap-3 bg-[#1c1c1e] sticky bottom-0 z-10 pb-6">
-          <button 
-            onClick={onClose}
-            className="px-6 py-3 rounded-xl font-medium text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
-          >
-            Cancel
-          </button>
-          <button 
-            onClick={processImport}
-            disabled={!title || !text || !audioFile || isProcessing}
-            className={`
-              flex items-center gap-2 px-8 py-3 rounded-xl font-bold text-white shadow-lg transition-all
-              ${(!title || !text || !audioFile || isProcessing) 
-                ? 'bg-zinc-700 opacity-50 cursor-not-allowed' 
-                : 'bg-sky-500 hover:bg-sky-400 hover:scale-105 active:scale-95 shadow-sky-500/20'}
-            `}
-          >
-            {isProcessing ? (
-              <>
-                <Loader2 size={18} className="animate-spin" />
-                Processing...
-              </>
-            ) : (
-              <>
+          {preview ? (
+            <>
+              <button 
+                onClick={discardPreview}
+                className="flex items-center gap-2 px-6 py-3 rounded-xl font-medium text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+              >
+                <ArrowLeft size={18} />
+                Back
+              </button>
+              <button 
+                onClick={confirmImport}
+                className="flex items-center gap-2 px-8 py-3 rounded-xl font-bold text-white shadow-lg transition-all bg-sky-500 hover:bg-sky-400 hover:scale-105 active:scale-95 shadow-sky-500/20"
+              >
                 <Check size={18} strokeWidth={3} />
                 Create Session
-              </>
-            )}
-          </button>
+              </button>
+            </>
+          ) : (
+            <>
+              <button 
+                onClick={handleClose}
+                className="px-6 py-3 rounded-xl font-medium text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+              >
+                Cancel
+              </button>
+              <button 
+                onClick={processImport}
+                disabled={!title || !hasTranscript || !audioFile || isProcessing}
+                className={`
+                  flex items-center gap-2 px-8 py-3 rounded-xl font-bold text-white shadow-lg transition-all
+                  ${(!title || !hasTranscript || !audioFile || isProcessing) 
+                    ? 'bg-zinc-700 opacity-50 cursor-not-allowed' 
+                    : 'bg-sky-500 hover:bg-sky-400 hover:scale-105 active:scale-95 shadow-sky-500/20'}
+                `}
+              >
+                {isProcessing ? (
+                  <>
+                    <Loader2 size={18} className="animate-spin" />
+                    Processing...
+                  </>
+                ) : (
+                  <>
+                    <Check size={18} strokeWidth={3} />
+                    Preview
+                  </>
+                )}
+              </button>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,79 @@
+import React from 'react';
+import { ArrowUpDown, Search, Tag, X } from 'lucide-react';
+import { EMPTY_LIBRARY_FILTER, LibraryFilter, LibrarySort, SORT_LABELS, isFilterActive } from '../utils/library';
+
+interface LibraryToolbarProps {
+  filter: LibraryFilter;
+  onFilterChange: (filter: LibraryFilter) => void;
+  sort: LibrarySort;
+  onSortChange: (sort: LibrarySort) => void;
+  categories: string[];
+  tags: string[];
+  shownCount: number;
+  totalCount: number;
+}
+
+const DIFFICULTIES = ['Easy', 'Medium', 'Hard'];
+
+const selectClassName = "bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-sky-500";
+
+export const LibraryToolbar: React.FC<LibraryToolbarProps> = ({ filter, onFilterChange, sort, onSortChange, categories, tags, shownCount, totalCount }) => {
+  const update = (patch: Partial<LibraryFilter>) => onFilterChange({ ...filter, ...patch });
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-500" />
+        <input
+          value={filter.query}
+          onChange={(e) => update({ query: e.target.value })}
+          placeholder="Search titles and sentences..."
+          className="w-full bg-zinc-900 border border-zinc-800 rounded-lg pl-9 pr-3 py-2 text-sm text-white focus:outline-none focus:border-sky-500"
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <select value={filter.category} onChange={(e) => update({ category: e.target.value })} className={selectClassName}>
+          <option value="all">All categories</option>
+          {categories.map(category => <option key={category} value={category}>{category}</option>)}
+        </select>
+        <select value={filter.difficulty} onChange={(e) => update({ difficulty: e.target.value })} className={selectClassName}>
+          <option value="all">Any difficulty</option>
+          {DIFFICULTIES.map(level => <option key={level} value={level}>{level}</option>)}
+        </select>
+        <div className="relative flex-1 min-w-[10rem]">
+          <ArrowUpDown size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-500 pointer-events-none" />
+          <select value={sort} onChange={(e) => onSortChange(e.target.value as LibrarySort)} className={`${selectClassName} w-full pl-9`}>
+            {(Object.keys(SORT_LABELS) as LibrarySort[]).map(option => (
+              <option key={option} value={option}>{SORT_LABELS[option]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <Tag size={12} className="text-zinc-500" />
+          {tags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => update({ tag: filter.tag === tag ? null : tag })}
+              className={`px-2.5 py-1 rounded-full text-[11px] font-semibold transition-colors ${filter.tag === tag ? 'bg-sky-500 text-white' : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'}`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isFilterActive(filter) && (
+        <div className="flex items-center justify-between text-xs text-zinc-500">
+          <span>{shownCount} of {totalCount} materials</span>
+          <button onClick={() => onFilterChange(EMPTY_LIBRARY_FILTER)} className="flex items-center gap-1 hover:text-white transition-colors">
+            <X size={12} /> Clear filters
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Check, Lock, Pencil, X } from 'lucide-react';
+import { Material } from '../types';
+
+interface MaterialEditorProps {
+  material: Material;
+  tags: string[];
+  readOnly: boolean; // Built-in lessons can only be tagged
+  onSave: (material: Material, tags: string[]) => void;
+  onClose: () => void;
+}
+
+const DIFFICULTIES: Material['difficulty'][] = ['Easy', 'Medium', 'Hard'];
+
+const labelClassName = "text-xs font-semibold uppercase text-zinc-500 tracking-wider";
+const inputClassName = "w-full bg-zinc-900/50 border border-zinc-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500 transition-all placeholder:text-zinc-600 disabled:opacity-50";
+
+export const MaterialEditor: React.FC<MaterialEditorProps> = ({ material, tags, readOnly, onSave, onClose }) => {
+  const [title, setTitle] = useState(material.title);
+  const [description, setDescription] = useState(material.description);
+  const [category, setCategory] = useState(material.category);
+  const [difficulty, setDifficulty] = useState<Material['difficulty']>(material.difficulty);
+  const [tagInput, setTagInput] = useState(tags.join(', '));
+  const [segmentTexts, setSegmentTexts] = useState<string[]>(() => material.segments.map(s => s.text));
+
+  const canSave = readOnly || (!!title.trim() && segmentTexts.every(t => t.trim()));
+
+  const handleSave = () => {
+    if (!canSave) return;
+    const nextTags = tagInput.split(',');
+    if (readOnly) {
+      onSave(material, nextTags);
+      return;
+    }
+    // Only the wording changes; ids and timings stay so recordings and reviews still line up
+    onSave({
+      ...material,
+      title: title.trim(),
+      description: description.trim(),
+      category: category.trim() || material.category,
+      difficulty,
+      segments: material.segments.map((s, i) => ({ ...s, text: segmentTexts[i].trim() })),
+    }, nextTags);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-lg bg-[#1c1c1e] rounded-3xl border border-zinc-800 shadow-2xl overflow-hidden animate-in slide-in-from-bottom-8 duration-300 max-h-[90vh] overflow-y-auto custom-scrollbar">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-zinc-800 sticky top-0 bg-[#1c1c1e] z-10">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <Pencil size={20} className="text-sky-500" />
+            {readOnly ? 'Tag Material' : 'Edit Material'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-zinc-500 hover:text-white hover:bg-white/10 rounded-full transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {readOnly && (
+            <p className="flex items-center gap-2 text-xs text-zinc-500">
+              <Lock size={12} /> Built-in lessons can't be edited, but you can tag them.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <label className={labelClassName}>Tags</label>
+            <input
+              type="text"
+              placeholder="e.g. exam, podcast, favourites"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              className={inputClassName}
+            />
+            <p className="text-[10px] text-zinc-500">Separate tags with commas.</p>
+          </div>
+
+          <div className="space-y-2">
+            <label className={labelClassName}>Title</label>
+            <input type="text" value={title} disabled={readOnly} onChange={(e) => setTitle(e.target.value)} className={inputClassName} />
+          </div>
+
+          <div className="space-y-2">
+            <label className={labelClassName}>Description</label>
+            <textarea value={description} disabled={readOnly} onChange={(e) => setDescription(e.target.value)} rows={2} className={`${inputClassName} resize-none`} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className={labelClassName}>Category</label>
+              <input type="text" value={category} disabled={readOnly} onChange={(e) => setCategory(e.target.value)} className={inputClassName} />
+            </div>
+            <div className="space-y-2">
+              <label className={labelClassName}>Difficulty</label>
+              <select
+                value={difficulty}
+                disabled={readOnly}
+                onChange={(e) => setDifficulty(e.target.value as Material['difficulty'])}
+                className={inputClassName}
+              >
+                {DIFFICULTIES.map(level => <option key={level} value={level}>{level}</option>)}
+              </select>
+            </div>
+          </div>
+
+          {!readOnly && (
+            <div className="space-y-2">
+              <label className={labelClassName}>Sentences</label>
+              {segmentTexts.map((text, i) => (
+                <div key={material.segments[i].id} className="flex gap-3">
+                  <span className="text-[10px] font-mono text-zinc-500 w-6 flex-shrink-0 pt-2">#{i + 1}</span>
+                  <textarea
+                    value={text}
+                    onChange={(e) => setSegmentTexts(prev => prev.map((t, j) => j === i ? e.target.value : t))}
+                    rows={2}
+                    className="flex-1 bg-zinc-900/50 border border-zinc-800 rounded-xl px-3 py-2 text-sm text-zinc-300 focus:outline-none focus:border-sky-500 resize-y"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 pt-0 flex items-center justify-end gap-3 bg-[#1c1c1e] sticky bottom-0 z-10 pb-6">
+          <button
+            onClick={onClose}
+            className="px-6 py-3 rounded-xl font-medium text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="flex items-center gap-2 px-8 py-3 rounded-xl font-bold text-white shadow-lg transition-all bg-sky-500 hover:bg-sky-400 shadow-sky-500/20 disabled:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Check size={18} strokeWidth={3} />
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
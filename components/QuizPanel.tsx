@@ -0,0 +1,308 @@
+import React, { useState } from 'react';
+import { Check, Headphones, ListChecks, Loader2, Plus, RotateCcw, Sparkles, Trash2, X } from 'lucide-react';
+import { Material, QuizQuestion, QuizQuestionType, Segment } from '../types';
+import { QUIZ_LENGTH_OPTIONS, generateQuiz } from '../services/aiService';
+import { getAIErrorMessage } from '../services/aiProvider';
+
+interface QuizPanelProps {
+  material: Material;
+  quiz: QuizQuestion[];
+  answers: Record<string, number>; // Question id -> chosen option
+  onAnswer: (questionId: string, optionIndex: number) => void;
+  onReset: () => void;
+  onReplay: (segment: Segment) => void; // Closes the quiz and plays the sentence
+  onClose: () => void;
+  onQuizChange?: (quiz: QuizQuestion[]) => void; // Only for materials that can be edited
+}
+
+const MULTIPLE_CHOICE_SLOTS = 4;
+
+const labelClassName = "text-[10px] font-semibold uppercase text-zinc-500 tracking-wider block mb-1";
+const inputClassName = "w-full bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-sky-500 placeholder:text-zinc-600";
+
+const QuestionForm: React.FC<{ segments: Segment[]; onAdd: (question: Omit<QuizQuestion, 'id'>) => void; onCancel: () => void }> = ({ segments, onAdd, onCancel }) => {
+  const [type, setType] = useState<QuizQuestionType>('multiple-choice');
+  const [prompt, setPrompt] = useState('');
+  const [options, setOptions] = useState<string[]>(() => Array(MULTIPLE_CHOICE_SLOTS).fill(''));
+  const [answerIndex, setAnswerIndex] = useState(0);
+  const [segmentId, setSegmentId] = useState(segments[0]?.id ?? '');
+  const [explanation, setExplanation] = useState('');
+
+  const finalOptions = type === 'true-false' ? ['True', 'False'] : options.map(o => o.trim());
+  // Blank multiple-choice slots are allowed, but not as the answer
+  const filledOptions = finalOptions.filter(Boolean);
+  const canAdd = !!prompt.trim() && !!segmentId && filledOptions.length >= 2 && !!finalOptions[answerIndex];
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onAdd({
+      type,
+      prompt: prompt.trim(),
+      options: filledOptions,
+      answerIndex: filledOptions.indexOf(finalOptions[answerIndex]),
+      segmentId,
+      ...(explanation.trim() ? { explanation: explanation.trim() } : {}),
+    });
+  };
+
+  return (
+    <div className="rounded-xl bg-zinc-900/50 border border-sky-500/30 p-4 space-y-3">
+      <div className="grid grid-cols-2 gap-1">
+        {(['multiple-choice', 'true-false'] as QuizQuestionType[]).map(option => (
+          <button
+            key={option}
+            onClick={() => { setType(option); setAnswerIndex(0); }}
+            className={`py-1.5 rounded-md text-xs font-bold transition-colors ${type === option ? 'bg-sky-500 text-white' : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'}`}
+          >
+            {option === 'multiple-choice' ? 'Multiple choice' : 'True / false'}
+          </button>
+        ))}
+      </div>
+
+      <div>
+        <label className={labelClassName}>Question</label>
+        <input value={prompt} onChange={(e) => setPrompt(e.target.value)} className={inputClassName} placeholder="What does the speaker say about...?" />
+      </div>
+
+      <div>
+        <label className={labelClassName}>Options · select the correct one</label>
+        <div className="space-y-1.5">
+          {(type === 'true-false' ? ['True', 'False'] : options).map((option, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <input type="radio" name="quiz-answer" checked={answerIndex === i} onChange={() => setAnswerIndex(i)} className="accent-sky-500" />
+              {type === 'true-false' ? (
+                <span className="text-sm text-zinc-300">{option}</span>
+              ) : (
+                <input
+                  value={option}
+                  onChange={(e) => setOptions(prev => prev.map((o, j) => j === i ? e.target.value : o))}
+                  className={inputClassName}
+                  placeholder={`Option ${i + 1}`}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClassName}>Answer is in</label>
+        <select value={segmentId} onChange={(e) => setSegmentId(e.target.value)} className={inputClassName}>
+          {segments.map((segment, i) => (
+            <option key={segment.id} value={segment.id}>
+              {i + 1}. {segment.text.length > 60 ? `${segment.text.slice(0, 57)}...` : segment.text}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className={labelClassName}>Explanation (optional)</label>
+        <input value={explanation} onChange={(e) => setExplanation(e.target.value)} className={inputClassName} />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-4 py-2 rounded-lg text-xs font-medium text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors">
+          Cancel
+        </button>
+        <button
+          onClick={handleAdd}
+          disabled={!canAdd}
+          className="flex items-center gap-1.5 px-4 py-2 rounded-lg text-xs font-bold bg-sky-500 hover:bg-sky-400 text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Check size={14} /> Add question
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const QuizPanel: React.FC<QuizPanelProps> = ({ material, quiz, answers, onAnswer, onReset, onReplay, onClose, onQuizChange }) => {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [length, setLength] = useState(QUIZ_LENGTH_OPTIONS[1]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+
+  const answeredCount = quiz.filter(q => answers[q.id] !== undefined).length;
+  const correctCount = quiz.filter(q => answers[q.id] === q.answerIndex).length;
+
+  const handleGenerate = async () => {
+    if (!onQuizChange) return;
+    if (quiz.length > 0 && !confirm("Replace the current questions with new ones?")) return;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      onQuizChange(await generateQuiz(material, length));
+      onReset();
+    } catch (e) {
+      setError(getAIErrorMessage(e));
+    }
+    setIsGenerating(false);
+  };
+
+  const handleAdd = (question: Omit<QuizQuestion, 'id'>) => {
+    onQuizChange?.([...quiz, { ...question, id: `${material.id}-q${Date.now()}` }]);
+    setIsAdding(false);
+  };
+
+  const handleDelete = (question: QuizQuestion) => {
+    onQuizChange?.(quiz.filter(q => q.id !== question.id));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-lg bg-[#1c1c1e] rounded-3xl border border-zinc-800 shadow-2xl overflow-hidden animate-in slide-in-from-bottom-8 duration-300 max-h-[90vh] overflow-y-auto custom-scrollbar">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-zinc-800 sticky top-0 bg-[#1c1c1e] z-10">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <ListChecks size={20} className="text-sky-500" />
+            Quiz
+            {quiz.length > 0 && (
+              <span className="text-sm font-medium text-zinc-500">{correctCount}/{quiz.length} correct</span>
+            )}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-zinc-500 hover:text-white hover:bg-white/10 rounded-full transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {quiz.length === 0 && !isAdding && (
+            <div className="text-center py-8 text-zinc-500">
+              <ListChecks size={36} className="mx-auto mb-3 opacity-40" />
+              <p>No questions for this material yet.</p>
+              {!onQuizChange && <p className="text-sm">Built-in lessons only include the questions they ship with.</p>}
+            </div>
+          )}
+
+          {quiz.map((question, qi) => {
+            const chosen = answers[question.id];
+            const answered = chosen !== undefined;
+            const segmentIndex = material.segments.findIndex(s => s.id === question.segmentId);
+            const segment = material.segments[segmentIndex];
+            return (
+              <div key={question.id} className="rounded-xl bg-zinc-900/50 border border-zinc-800 p-4">
+                <div className="flex items-start justify-between gap-2 mb-3">
+                  <p className="text-sm text-white">
+                    <span className="text-zinc-500 font-mono mr-2">{qi + 1}.</span>{question.prompt}
+                  </p>
+                  {isEditing && (
+                    <button
+                      onClick={() => handleDelete(question)}
+                      className="p-1.5 hover:bg-red-500/20 text-zinc-500 hover:text-red-500 rounded-md transition-colors flex-shrink-0"
+                      title="Delete question"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  )}
+                </div>
+
+                <div className={`grid gap-1.5 ${question.type === 'true-false' ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                  {question.options.map((option, oi) => {
+                    const isCorrect = oi === question.answerIndex;
+                    const style = !answered
+                      ? 'bg-zinc-800 text-zinc-200 hover:bg-zinc-700'
+                      : isCorrect
+                        ? 'bg-emerald-500/20 text-emerald-200 border-emerald-500/50'
+                        : oi === chosen
+                          ? 'bg-red-500/20 text-red-200 border-red-500/50'
+                          : 'bg-zinc-800/50 text-zinc-500';
+                    return (
+                      <button
+                        key={oi}
+                        onClick={() => onAnswer(question.id, oi)}
+                        disabled={answered}
+                        className={`text-left px-3 py-2 rounded-lg text-sm border border-transparent transition-colors disabled:cursor-default ${style}`}
+                      >
+                        {option}
+                      </button>
+                    );
+                  })}
+                </div>
+
+                {answered && (
+                  <div className="mt-3 flex items-start justify-between gap-3 text-xs">
+                    <p className={chosen === question.answerIndex ? 'text-emerald-300' : 'text-red-300'}>
+                      {chosen === question.answerIndex ? 'Correct.' : 'Not quite.'}
+                      {question.explanation && <span className="text-zinc-400"> {question.explanation}</span>}
+                    </p>
+                    {segment && chosen !== question.answerIndex && (
+                      <button
+                        onClick={() => onReplay(segment)}
+                        className="flex items-center gap-1.5 flex-shrink-0 px-3 py-1.5 rounded-full bg-sky-500/15 text-sky-300 hover:bg-sky-500/25 font-bold transition-colors"
+                      >
+                        <Headphones size={12} /> Re-listen to sentence {segmentIndex + 1}
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {isAdding && (
+            <QuestionForm segments={material.segments} onAdd={handleAdd} onCancel={() => setIsAdding(false)} />
+          )}
+
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 pt-0 flex flex-wrap items-center justify-between gap-3 bg-[#1c1c1e] sticky bottom-0 z-10 pb-6">
+          <div className="flex items-center gap-2">
+            {onQuizChange && (
+              <>
+                <select
+                  value={length}
+                  onChange={(e) => setLength(Number(e.target.value))}
+                  className="bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-2 text-xs text-white focus:outline-none focus:border-sky-500"
+                  title="Number of questions"
+                >
+                  {QUIZ_LENGTH_OPTIONS.map(n => <option key={n} value={n}>{n} questions</option>)}
+                </select>
+                <button
+                  onClick={handleGenerate}
+                  disabled={isGenerating}
+                  className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-bold bg-zinc-800 hover:bg-zinc-700 text-zinc-200 transition-colors disabled:opacity-50"
+                >
+                  {isGenerating ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+                  {quiz.length > 0 ? 'Regenerate' : 'Generate'}
+                </button>
+                <button
+                  onClick={() => setIsAdding(true)}
+                  disabled={isAdding}
+                  className="p-2 rounded-lg text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors disabled:opacity-40"
+                  title="Write a question"
+                >
+                  <Plus size={16} />
+                </button>
+                {quiz.length > 0 && (
+                  <button
+                    onClick={() => setIsEditing(e => !e)}
+                    className={`p-2 rounded-lg transition-colors ${isEditing ? 'bg-white/10 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'}`}
+                    title="Delete questions"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+          {answeredCount > 0 && (
+            <button
+              onClick={onReset}
+              className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-medium text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+            >
+              <RotateCcw size={14} /> Retake
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
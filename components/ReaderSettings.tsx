@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Settings2, Gauge, Volume2, Hourglass } from 'lucide-react';
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5];
+
+// Pause after each sentence in Gap Mode: a fixed number of seconds, or a multiple of the sentence's length
+export interface GapSetting {
+  unit: 'seconds' | 'multiple';
+  value: number;
+}
+
+const GAP_PRESETS: GapSetting[] = [
+  { unit: 'seconds', value: 1 },
+  { unit: 'seconds', value: 2 },
+  { unit: 'seconds', value: 4 },
+  { unit: 'multiple', value: 1 },
+  { unit: 'multiple', value: 1.5 },
+  { unit: 'multiple', value: 2 },
+];
+
+export const getGapSeconds = (gap: GapSetting, segmentLength: number) => {
+  return gap.unit === 'seconds' ? gap.value : gap.value * segmentLength;
+};
+
+const formatGap = (gap: GapSetting) => gap.unit === 'seconds' ? `${gap.value}s` : `${gap.value}×`;
+
+interface SpeechSettings {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  voices: SpeechSynthesisVoice[];
+  voiceURI: string | null;
+  onVoiceChange: (voiceURI: string | null) => void;
+}
+
+interface ReaderSettingsProps {
+  playbackRate: number;
+  onPlaybackRateChange: (rate: number) => void;
+  rampLoops: boolean;
+  onRampLoopsChange: (enabled: boolean) => void;
+  gap: GapSetting;
+  onGapChange: (gap: GapSetting) => void;
+  speech?: SpeechSettings; // Only for materials without an audio file
+}
+
+const SectionLabel: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <label className="text-[10px] font-semibold uppercase text-zinc-500 tracking-wider block mb-2">{children}</label>
+);
+
+export const ReaderSettings: React.FC<ReaderSettingsProps> = ({
+  playbackRate,
+  onPlaybackRateChange,
+  rampLoops,
+  onRampLoopsChange,
+  gap,
+  onGapChange,
+  speech,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        className={`relative w-10 h-10 flex items-center justify-center rounded-full transition-colors ${isOpen ? 'bg-white/10 text-white' : 'text-zinc-400 hover:text-white hover:bg-white/10'}`}
+        title="Playback Settings"
+      >
+        <Settings2 size={18} />
+        {playbackRate !== 1 && (
+          <span className="absolute -bottom-1 -right-1 text-[9px] font-bold bg-sky-500 text-white rounded-full px-1">{playbackRate}x</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-12 w-72 bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl p-4 space-y-4 z-20">
+          <div>
+            <SectionLabel>
+              <span className="flex items-center gap-1.5"><Gauge size={12} /> Speed</span>
+            </SectionLabel>
+            <div className="grid grid-cols-5 gap-1">
+              {PLAYBACK_RATES.map(rate => (
+                <button
+                  key={rate}
+                  onClick={() => onPlaybackRateChange(rate)}
+                  className={`py-1.5 rounded-md text-xs font-bold transition-colors ${rate === playbackRate ? 'bg-sky-500 text-white' : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'}`}
+                >
+                  {rate}x
+                </button>
+              ))}
+            </div>
+            <label className="flex items-start gap-2 pt-3 text-xs text-zinc-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={rampLoops}
+                onChange={(e) => onRampLoopsChange(e.target.checked)}
+                className="accent-sky-500 mt-0.5"
+              />
+              <span>
+                Ramp up across loops
+                <span className="block text-[10px] text-zinc-500">Sentence loops start at 0.75x and reach the chosen speed on the last pass.</span>
+              </span>
+            </label>
+          </div>
+
+          <div className="border-t border-zinc-800 pt-4">
+            <SectionLabel>
+              <span className="flex items-center gap-1.5"><Hourglass size={12} /> Gap Mode Pause</span>
+            </SectionLabel>
+            <div className="grid grid-cols-3 gap-1">
+              {GAP_PRESETS.map(preset => (
+                <button
+                  key={formatGap(preset)}
+                  onClick={() => onGapChange(preset)}
+                  className={`py-1.5 rounded-md text-xs font-bold transition-colors ${preset.unit === gap.unit && preset.value === gap.value ? 'bg-sky-500 text-white' : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'}`}
+                >
+                  {formatGap(preset)}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-zinc-500 pt-2">Seconds of silence, or a multiple of each sentence's length, to repeat aloud before the next one.</p>
+          </div>
+
+          {speech && (
+            <div className="border-t border-zinc-800 pt-4">
+              <SectionLabel>
+                <span className="flex items-center gap-1.5"><Volume2 size={12} /> Voice</span>
+              </SectionLabel>
+              <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer mb-2">
+                <input
+                  type="checkbox"
+                  checked={speech.enabled}
+                  onChange={(e) => speech.onEnabledChange(e.target.checked)}
+                  className="accent-sky-500"
+                />
+                Read aloud with text-to-speech
+              </label>
+              <select
+                value={speech.voiceURI ?? ''}
+                onChange={(e) => speech.onVoiceChange(e.target.value || null)}
+                disabled={!speech.enabled}
+                className="w-full bg-black/50 border border-zinc-700 rounded-lg px-2 py-1.5 text-white text-xs focus:border-sky-500 focus:outline-none disabled:opacity-50"
+              >
+                <option value="">System default</option>
+                {speech.voices.map(v => (
+                  <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
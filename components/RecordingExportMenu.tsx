@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+
+export type RecordingExportMode = 'takes' | 'interleaved';
+
+export interface RecordingExportOptions {
+  mode: RecordingExportMode;
+  gapSeconds: number;
+}
+
+interface RecordingExportMenuProps {
+  canInterleave: boolean; // Needs the original audio file
+  isExporting: boolean;
+  onExport: (options: RecordingExportOptions) => void;
+}
+
+const GAP_OPTIONS = [0, 0.5, 1, 2];
+
+const MODE_LABELS: Record<RecordingExportMode, { title: string; hint: string }> = {
+  takes: { title: 'My takes only', hint: 'Your chosen take for each sentence, in order' },
+  interleaved: { title: 'Original + my take', hint: 'Each sentence followed by your take, for teacher review' },
+};
+
+export const RecordingExportMenu: React.FC<RecordingExportMenuProps> = ({ canInterleave, isExporting, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [mode, setMode] = useState<RecordingExportMode>('takes');
+  const [gapSeconds, setGapSeconds] = useState(0.5);
+
+  const effectiveMode = canInterleave ? mode : 'takes';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        disabled={isExporting}
+        className={`w-10 h-10 flex items-center justify-center rounded-full transition-colors ${isOpen ? 'bg-white/10 text-white' : 'text-zinc-500 hover:text-white hover:bg-white/10'}`}
+        title="Export Recording"
+      >
+        {isExporting ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 bottom-12 w-64 bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl p-4 space-y-4 z-20">
+          <div className="space-y-2">
+            {(Object.keys(MODE_LABELS) as RecordingExportMode[]).map(option => (
+              <label
+                key={option}
+                className={`flex items-start gap-2 text-xs cursor-pointer ${option === 'interleaved' && !canInterleave ? 'opacity-40 cursor-not-allowed' : 'text-zinc-300'}`}
+              >
+                <input
+                  type="radio"
+                  name="recording-export-mode"
+                  checked={effectiveMode === option}
+                  disabled={option === 'interleaved' && !canInterleave}
+                  onChange={() => setMode(option)}
+                  className="accent-sky-500 mt-0.5"
+                />
+                <span>
+                  {MODE_LABELS[option].title}
+                  <span className="block text-[10px] text-zinc-500">
+                    {option === 'interleaved' && !canInterleave ? 'Needs an audio file for this material' : MODE_LABELS[option].hint}
+                  </span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <label className="text-[10px] font-semibold uppercase text-zinc-500 tracking-wider block mb-2">Silence between clips</label>
+            <div className="grid grid-cols-4 gap-1">
+              {GAP_OPTIONS.map(gap => (
+                <button
+                  key={gap}
+                  onClick={() => setGapSeconds(gap)}
+                  className={`py-1.5 rounded-md text-xs font-bold transition-colors ${gap === gapSeconds ? 'bg-sky-500 text-white' : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'}`}
+                >
+                  {gap}s
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={() => {
+              setIsOpen(false);
+              onExport({ mode: effectiveMode, gapSeconds });
+            }}
+            className="w-full py-2 rounded-lg bg-sky-500 hover:bg-sky-400 text-white text-sm font-bold transition-colors"
+          >
+            Export .wav
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React from 'react';
+import { AudioLines, Play, Square, Star, Trash2 } from 'lucide-react';
+import { RecordingTake } from '../types';
+import { getChosenTake } from '../services/recordingStore';
+
+interface RecordingTakesProps {
+  takes: RecordingTake[];
+  playingTakeId: string | null;
+  onPlay: (take: RecordingTake) => void;
+  onChoose: (take: RecordingTake) => void;
+  onDelete: (take: RecordingTake) => void;
+  comparingTakeId?: string | null;
+  onCompare?: (take: RecordingTake) => void; // Only offered when the material has original audio
+}
+
+const formatTakeTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return isToday ? time : `${date.toLocaleDateString([], { month: 'short', day: 'numeric' })} ${time}`;
+};
+
+export const RecordingTakes: React.FC<RecordingTakesProps> = ({ takes, playingTakeId, onPlay, onChoose, onDelete, comparingTakeId, onCompare }) => {
+  const chosen = getChosenTake(takes);
+
+  return (
+    <div className="mx-auto max-w-2xl px-4 mb-2">
+      <div className="bg-zinc-800/50 rounded-lg p-2 px-3 border border-zinc-700/50">
+        <div className="flex items-center gap-3 mb-1.5">
+          <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+          <span className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">Your Takes</span>
+          <span className="text-[10px] text-zinc-500">Star the best one for export</span>
+        </div>
+        <div className="flex gap-2 overflow-x-auto no-scrollbar">
+          {takes.map((take, i) => {
+            const isChosen = take.id === chosen?.id;
+            const isPlaying = take.id === playingTakeId;
+            return (
+              <div
+                key={take.id}
+                className={`flex items-center gap-1 flex-shrink-0 rounded-md pl-1 pr-1.5 py-1 border ${isChosen ? 'border-amber-400/50 bg-amber-400/10' : 'border-zinc-700 bg-zinc-900/50'}`}
+              >
+                <button
+                  onClick={() => onPlay(take)}
+                  className="p-1.5 bg-zinc-700 hover:bg-zinc-600 rounded-md text-white transition-colors"
+                  title={isPlaying ? 'Stop' : 'Play take'}
+                >
+                  {isPlaying ? <Square size={12} fill="currentColor" /> : <Play size={12} fill="currentColor" />}
+                </button>
+                <span className="text-[11px] text-zinc-300 px-1 whitespace-nowrap">
+                  #{i + 1} <span className="text-zinc-500">{formatTakeTime(take.createdAt)}</span>
+                </span>
+                <button
+                  onClick={() => onChoose(take)}
+                  className={`p-1 rounded-md transition-colors ${isChosen ? 'text-amber-400' : 'text-zinc-500 hover:text-amber-300'}`}
+                  title={isChosen ? 'Used for export' : 'Use this take for export'}
+                >
+                  <Star size={12} fill={isChosen ? 'currentColor' : 'none'} />
+                </button>
+                {onCompare && (
+                  <button
+                    onClick={() => onCompare(take)}
+                    className={`p-1 rounded-md transition-colors ${take.id === comparingTakeId ? 'text-sky-400' : 'text-zinc-500 hover:text-sky-300'}`}
+                    title="Compare with the original"
+                  >
+                    <AudioLines size={12} />
+                  </button>
+                )}
+                <button
+                  onClick={() => onDelete(take)}
+                  className="p-1 hover:bg-red-500/20 text-zinc-500 hover:text-red-500 rounded-md transition-colors"
+                  title="Delete take"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
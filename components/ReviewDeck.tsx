@@ -0,0 +1,101 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, CheckCircle2 } from 'lucide-react';
+import { Material, ReviewCard } from '../types';
+import { BlurReader } from './BlurReader';
+import { ReviewGrade, formatInterval, getDueCards, gradeCard, loadReviewCards } from '../services/reviewService';
+
+interface ReviewDeckProps {
+  materials: Material[];
+  onClose: () => void;
+}
+
+const GRADES: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 'again', label: 'Again', className: 'bg-red-500/15 text-red-300 hover:bg-red-500/25' },
+  { grade: 'hard', label: 'Hard', className: 'bg-amber-400/15 text-amber-300 hover:bg-amber-400/25' },
+  { grade: 'good', label: 'Good', className: 'bg-emerald-500/15 text-emerald-300 hover:bg-emerald-500/25' },
+  { grade: 'easy', label: 'Easy', className: 'bg-sky-500/15 text-sky-300 hover:bg-sky-500/25' },
+];
+
+export const ReviewDeck: React.FC<ReviewDeckProps> = ({ materials, onClose }) => {
+  // Snapshot the due cards when the deck opens; "Again" cards are re-queued at the end
+  const [queue, setQueue] = useState<ReviewCard[]>(() => {
+    return getDueCards(loadReviewCards()).filter(card => {
+      const material = materials.find(m => m.id === card.materialId);
+      return material?.segments.some(s => s.id === card.segmentId);
+    });
+  });
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  const card = queue[0];
+
+  // BlurReader resets whenever its material changes identity, so build the one-sentence material once per card
+  const cardMaterial = useMemo(() => {
+    if (!card) return null;
+    const material = materials.find(m => m.id === card.materialId);
+    const segment = material?.segments.find(s => s.id === card.segmentId);
+    if (!material || !segment) return null;
+    return { ...material, segments: [segment] };
+  }, [card?.id]);
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!card) return;
+    const updated = gradeCard(card, grade);
+    setReviewedCount(c => c + 1);
+    setQueue(prev => grade === 'again' ? [...prev.slice(1), updated] : prev.slice(1));
+  };
+
+  if (!card || !cardMaterial) {
+    return (
+      <div className="fixed inset-0 z-50 bg-[#09090b] flex flex-col items-center justify-center text-center px-6 animate-in fade-in duration-300">
+        <CheckCircle2 size={48} className="text-emerald-400 mb-4" />
+        <h2 className="text-2xl font-serif font-bold text-white mb-2">
+          {reviewedCount > 0 ? 'Review complete' : 'Nothing due right now'}
+        </h2>
+        <p className="text-zinc-400 mb-8 max-w-sm">
+          {reviewedCount > 0
+            ? `You reviewed ${reviewedCount} sentence${reviewedCount === 1 ? '' : 's'}. Come back later for the next batch.`
+            : 'Flag difficult sentences while practising and they will show up here when they are due.'}
+        </p>
+        <button
+          onClick={onClose}
+          className="flex items-center gap-2 px-6 py-3 rounded-xl font-bold text-white bg-sky-500 hover:bg-sky-400 transition-colors"
+        >
+          <ArrowLeft size={18} />
+          Back to Library
+        </button>
+      </div>
+    );
+  }
+
+  const gradeBar = (
+    <div className="mx-auto max-w-2xl px-4 mb-3">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">How well did you catch it?</span>
+        <span className="text-xs text-zinc-500">{queue.length} left</span>
+      </div>
+      <div className="grid grid-cols-4 gap-2">
+        {GRADES.map(({ grade, label, className }) => (
+          <button
+            key={grade}
+            onClick={() => handleGrade(grade)}
+            className={`flex flex-col items-center py-2 rounded-lg transition-colors ${className}`}
+          >
+            <span className="text-sm font-bold">{label}</span>
+            <span className="text-[10px] opacity-70">{formatInterval(card, grade)}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <BlurReader
+      key={card.id + reviewedCount}
+      material={cardMaterial}
+      onBack={onClose}
+      initialIndex={0}
+      reviewControls={gradeBar}
+      persistProgress={false}
+    />
+  );
+};
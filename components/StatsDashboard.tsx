@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { ArrowLeft, ChartColumn, Clock, Flame, Mic, Repeat } from 'lucide-react';
+import { Material, PracticeSession } from '../types';
+import { loadSessions } from '../services/sessionService';
+import { DayTotal, getDailyMinutes, getMostReplayed, getStreaks, getViewModeMinutes, getWeeklyMinutes } from '../utils/practiceStats';
+
+interface StatsDashboardProps {
+  materials: Material[];
+  onClose: () => void;
+}
+
+const VIEW_MODE_LABELS: Record<string, string> = {
+  visible: 'Visible',
+  blur: 'Blur',
+  blind: 'Blind',
+  dictation: 'Dictation',
+};
+
+const StatCard: React.FC<{ icon: React.ReactNode; value: React.ReactNode; label: string }> = ({ icon, value, label }) => (
+  <div className="rounded-xl bg-zinc-900/50 border border-zinc-800 p-4">
+    <div className="flex items-center gap-2 text-zinc-500 mb-1">{icon}</div>
+    <div className="text-2xl font-bold text-white">{value}</div>
+    <div className="text-[10px] uppercase tracking-wider text-zinc-500">{label}</div>
+  </div>
+);
+
+const BarChart: React.FC<{ data: DayTotal[]; highlightLast?: boolean }> = ({ data, highlightLast }) => {
+  const max = Math.max(1, ...data.map(d => d.minutes));
+  return (
+    <div className="flex items-end gap-1.5 h-32">
+      {data.map((d, i) => (
+        <div key={d.key} className="flex-1 flex flex-col items-center gap-1 h-full justify-end" title={`${d.key}: ${d.minutes} min`}>
+          <span className="text-[9px] text-zinc-500">{d.minutes > 0 ? d.minutes : ''}</span>
+          <div
+            className={`w-full rounded-t ${highlightLast && i === data.length - 1 ? 'bg-sky-400' : 'bg-sky-500/40'}`}
+            style={{ height: `${(d.minutes / max) * 100}%`, minHeight: d.minutes > 0 ? 2 : 0 }}
+          />
+          <span className="text-[9px] text-zinc-500 whitespace-nowrap">{d.label}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h2 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-3">{children}</h2>
+);
+
+export const StatsDashboard: React.FC<StatsDashboardProps> = ({ materials, onClose }) => {
+  const [sessions] = useState<PracticeSession[]>(() => loadSessions());
+
+  const daily = getDailyMinutes(sessions, 14);
+  const weekly = getWeeklyMinutes(sessions, 8);
+  const stats = {
+    daily,
+    weekly,
+    streaks: getStreaks(sessions),
+    today: daily[daily.length - 1]?.minutes ?? 0,
+    thisWeek: weekly[weekly.length - 1]?.minutes ?? 0,
+    recordings: sessions.reduce((acc, s) => acc + s.recordings, 0),
+    viewModes: getViewModeMinutes(sessions),
+    mostReplayed: getMostReplayed(sessions, 5),
+  };
+
+  const findSegment = (materialId: string, segmentId: string) => {
+    const material = materials.find(m => m.id === materialId);
+    return { material, segment: material?.segments.find(s => s.id === segmentId) };
+  };
+
+  const viewModeTotal = Object.values(stats.viewModes).reduce((acc, m) => acc + m, 0);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#09090b] flex flex-col animate-in fade-in duration-300">
+      <header className="flex-none px-4 py-4 md:px-6 flex items-center justify-between bg-zinc-950/80 backdrop-blur-md border-b border-white/5">
+        <button onClick={onClose} className="p-2 -ml-2 text-zinc-400 hover:text-white rounded-full hover:bg-white/10 transition-colors">
+          <ArrowLeft size={24} />
+        </button>
+        <h1 className="text-lg font-bold text-white flex items-center gap-2">
+          <ChartColumn size={18} className="text-sky-400" /> Your Practice
+        </h1>
+        <div className="w-10" />
+      </header>
+
+      <main className="flex-1 overflow-y-auto px-6 no-scrollbar">
+        <div className="max-w-2xl mx-auto py-6 space-y-8">
+          {sessions.length === 0 ? (
+            <div className="text-center py-20 text-zinc-500">
+              <ChartColumn size={40} className="mx-auto mb-4 opacity-40" />
+              <p>No practice recorded yet.</p>
+              <p className="text-sm">Open a lesson and your listening time will show up here.</p>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                <StatCard icon={<Flame size={14} className="text-orange-400" />} value={stats.streaks.current} label={`Day streak · best ${stats.streaks.longest}`} />
+                <StatCard icon={<Clock size={14} />} value={stats.today} label="Minutes today" />
+                <StatCard icon={<Clock size={14} />} value={stats.thisWeek} label="Minutes this week" />
+                <StatCard icon={<Mic size={14} />} value={stats.recordings} label="Recordings" />
+              </div>
+
+              <section>
+                <SectionTitle>Minutes per day · last 14 days</SectionTitle>
+                <BarChart data={stats.daily} highlightLast />
+              </section>
+
+              <section>
+                <SectionTitle>Minutes per week</SectionTitle>
+                <BarChart data={stats.weekly} highlightLast />
+              </section>
+
+              {viewModeTotal > 0 && (
+                <section>
+                  <SectionTitle>View modes</SectionTitle>
+                  <div className="space-y-2">
+                    {Object.entries(stats.viewModes).sort((a, b) => b[1] - a[1]).map(([mode, minutes]) => (
+                      <div key={mode} className="flex items-center gap-3 text-xs">
+                        <span className="w-20 text-zinc-400">{VIEW_MODE_LABELS[mode] ?? mode}</span>
+                        <div className="flex-1 h-2 rounded-full bg-zinc-800 overflow-hidden">
+                          <div className="h-full bg-sky-500" style={{ width: `${(minutes / viewModeTotal) * 100}%` }} />
+                        </div>
+                        <span className="w-14 text-right text-zinc-500">{Math.round(minutes)} min</span>
+                      </div>
+                    ))}
+                  </div>
+                </section>
+              )}
+
+              {stats.mostReplayed.length > 0 && (
+                <section>
+                  <SectionTitle>Most replayed sentences</SectionTitle>
+                  <div className="space-y-2">
+                    {stats.mostReplayed.map(item => {
+                      const { material, segment } = findSegment(item.materialId, item.segmentId);
+                      return (
+                        <div key={`${item.materialId}:${item.segmentId}`} className="flex gap-3 p-3 rounded-xl bg-zinc-900/50 border border-zinc-800">
+                          <span className="flex items-center gap-1 text-xs font-bold text-sky-400 w-10 flex-shrink-0">
+                            <Repeat size={12} />{item.loops}
+                          </span>
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-serif text-zinc-200">{segment?.text ?? <span className="italic text-zinc-600">Sentence no longer available</span>}</p>
+                            <p className="text-[10px] uppercase tracking-wider text-zinc-600 mt-1">{material?.title ?? 'Deleted material'}</p>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </section>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,250 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Loader2, Play, Square, X } from 'lucide-react';
+import { RecordingTake, Segment } from '../types';
+import { computeWaveformPeaks, decodeAudio, formatTimestamp } from '../utils/audioUtils';
+import { estimatePitchContour, findVoiceOnset, toRelativeSemitones } from '../utils/pitch';
+
+interface TakeComparisonProps {
+  audioUrl: string;
+  segment: Segment;
+  take: RecordingTake;
+  onClose: () => void;
+}
+
+type Side = 'original' | 'take';
+
+interface Lane {
+  buffer: AudioBuffer;
+  start: number; // seconds into the buffer where the lane begins (voice onset)
+  end: number;
+  pitch: (number | null)[]; // semitones around the speaker's median, one per 10 ms
+}
+
+const LANE_COLORS: Record<Side, string> = {
+  original: '#0ea5e9',
+  take: '#f43f5e',
+};
+const PITCH_STEP = 0.01; // Matches the hop size of estimatePitchContour
+const PITCH_RANGE = 12; // Semitones shown above and below the median
+
+// Decoding a whole lesson is slow, so keep the last one around between panels
+let cachedOriginal: { url: string; buffer: Promise<AudioBuffer> } | null = null;
+
+const decodeOriginal = (url: string) => {
+  if (cachedOriginal?.url !== url) {
+    cachedOriginal = { url, buffer: decodeAudio(url) };
+    cachedOriginal.buffer.catch(() => { cachedOriginal = null; });
+  }
+  return cachedOriginal.buffer;
+};
+
+const buildLane = (buffer: AudioBuffer, start: number, end: number): Lane => {
+  const onset = start + findVoiceOnset(buffer, start, end);
+  return { buffer, start: onset, end, pitch: toRelativeSemitones(estimatePitchContour(buffer, onset, end)) };
+};
+
+const prepareCanvas = (canvas: HTMLCanvasElement | null) => {
+  if (!canvas) return null;
+  canvas.width = canvas.clientWidth * window.devicePixelRatio;
+  canvas.height = canvas.clientHeight * window.devicePixelRatio;
+  const ctx = canvas.getContext('2d');
+  ctx?.clearRect(0, 0, canvas.width, canvas.height);
+  return ctx;
+};
+
+const drawWaveform = (canvas: HTMLCanvasElement | null, lane: Lane, axisDuration: number, color: string) => {
+  const ctx = prepareCanvas(canvas);
+  if (!ctx || !canvas) return;
+  const { width, height } = canvas;
+  const buckets = Math.max(1, Math.floor((width / 2) * ((lane.end - lane.start) / axisDuration)));
+  const peaks = computeWaveformPeaks(lane.buffer, buckets, lane.start, lane.end);
+  const mid = height / 2;
+  ctx.fillStyle = color;
+  peaks.forEach((peak, i) => {
+    const h = Math.max(1, peak * height * 0.9);
+    ctx.fillRect(i * 2, mid - h / 2, 1, h);
+  });
+};
+
+const drawPitch = (canvas: HTMLCanvasElement | null, lanes: Record<Side, Lane>, axisDuration: number) => {
+  const ctx = prepareCanvas(canvas);
+  if (!ctx || !canvas) return;
+  const { width, height } = canvas;
+  const mid = height / 2;
+
+  ctx.strokeStyle = '#3f3f46';
+  ctx.setLineDash([4, 4]);
+  ctx.beginPath();
+  ctx.moveTo(0, mid);
+  ctx.lineTo(width, mid);
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  (Object.keys(lanes) as Side[]).forEach(side => {
+    ctx.strokeStyle = LANE_COLORS[side];
+    ctx.lineWidth = 2 * window.devicePixelRatio;
+    ctx.beginPath();
+    let drawing = false;
+    lanes[side].pitch.forEach((semitones, i) => {
+      if (semitones === null) {
+        drawing = false;
+        return;
+      }
+      const x = ((i * PITCH_STEP) / axisDuration) * width;
+      const clamped = Math.max(-PITCH_RANGE, Math.min(PITCH_RANGE, semitones));
+      const y = mid - (clamped / PITCH_RANGE) * mid * 0.9;
+      if (drawing) ctx.lineTo(x, y);
+      else ctx.moveTo(x, y);
+      drawing = true;
+    });
+    ctx.stroke();
+  });
+};
+
+export const TakeComparison: React.FC<TakeComparisonProps> = ({ audioUrl, segment, take, onClose }) => {
+  const [lanes, setLanes] = useState<Record<Side, Lane> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [playing, setPlaying] = useState<Side | null>(null);
+  const [playhead, setPlayhead] = useState<number | null>(null);
+
+  const originalCanvasRef = useRef<HTMLCanvasElement>(null);
+  const takeCanvasRef = useRef<HTMLCanvasElement>(null);
+  const pitchCanvasRef = useRef<HTMLCanvasElement>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const rafRef = useRef<number>();
+
+  // --- Decode & Analyse ---
+  useEffect(() => {
+    let cancelled = false;
+    setLanes(null);
+    setError(null);
+    Promise.all([decodeOriginal(audioUrl), decodeAudio(take.blob)])
+      .then(([original, recorded]) => {
+        if (cancelled) return;
+        setLanes({
+          original: buildLane(original, segment.startTime, Math.min(segment.endTime, original.duration)),
+          take: buildLane(recorded, 0, recorded.duration),
+        });
+      })
+      .catch(e => {
+        console.error("Comparison decode failed", e);
+        if (!cancelled) setError("Could not decode the audio for comparison.");
+      });
+    return () => { cancelled = true; };
+  }, [audioUrl, segment.id, segment.startTime, segment.endTime, take.id]);
+
+  // Both lanes share one time axis, as long as the longer of the two
+  const axisDuration = useMemo(() => {
+    if (!lanes) return 0;
+    return Math.max(lanes.original.end - lanes.original.start, lanes.take.end - lanes.take.start, 0.1);
+  }, [lanes]);
+
+  // --- Draw ---
+  useEffect(() => {
+    if (!lanes) return;
+    drawWaveform(originalCanvasRef.current, lanes.original, axisDuration, LANE_COLORS.original);
+    drawWaveform(takeCanvasRef.current, lanes.take, axisDuration, LANE_COLORS.take);
+    drawPitch(pitchCanvasRef.current, lanes, axisDuration);
+  }, [lanes, axisDuration]);
+
+  // --- A/B Playback ---
+  const stop = () => {
+    if (rafRef.current) cancelAnimationFrame(rafRef.current);
+    if (sourceRef.current) {
+      sourceRef.current.onended = null;
+      try { sourceRef.current.stop(); } catch { /* already stopped */ }
+      sourceRef.current = null;
+    }
+    setPlaying(null);
+    setPlayhead(null);
+  };
+
+  useEffect(() => () => {
+    stop();
+    audioContextRef.current?.close();
+  }, []);
+
+  const play = (side: Side) => {
+    const wasPlaying = playing === side;
+    stop();
+    if (wasPlaying || !lanes) return;
+
+    const ctx = audioContextRef.current ?? new (window.AudioContext || (window as any).webkitAudioContext)();
+    audioContextRef.current = ctx;
+    const lane = lanes[side];
+    const source = ctx.createBufferSource();
+    source.buffer = lane.buffer;
+    source.connect(ctx.destination);
+    source.onended = stop;
+    const startedAt = ctx.currentTime;
+    source.start(0, lane.start, lane.end - lane.start);
+    sourceRef.current = source;
+    setPlaying(side);
+
+    const tick = () => {
+      setPlayhead(ctx.currentTime - startedAt);
+      rafRef.current = requestAnimationFrame(tick);
+    };
+    rafRef.current = requestAnimationFrame(tick);
+  };
+
+  const renderPlayButton = (side: Side, label: string) => (
+    <button
+      onClick={() => play(side)}
+      disabled={!lanes}
+      className="flex items-center gap-1.5 px-2.5 py-1 rounded-md bg-zinc-700 hover:bg-zinc-600 text-[11px] font-semibold text-white disabled:opacity-40"
+    >
+      {playing === side ? <Square size={10} fill="currentColor" /> : <Play size={10} fill="currentColor" />}
+      <span style={{ color: LANE_COLORS[side] }}>{label}</span>
+    </button>
+  );
+
+  const playheadLeft = playhead !== null && axisDuration > 0 ? `${Math.min(100, (playhead / axisDuration) * 100)}%` : null;
+
+  return (
+    <div className="mx-auto max-w-2xl px-4 mb-2">
+      <div className="bg-zinc-800/50 rounded-lg p-3 border border-zinc-700/50">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">Compare</span>
+          <div className="flex items-center gap-2">
+            {renderPlayButton('original', 'A · Original')}
+            {renderPlayButton('take', 'B · You')}
+            <button onClick={onClose} className="p-1 text-zinc-500 hover:text-white rounded-md" title="Close comparison">
+              <X size={14} />
+            </button>
+          </div>
+        </div>
+
+        {error ? (
+          <p className="text-xs text-red-400 py-4 text-center">{error}</p>
+        ) : (
+          <div className="relative space-y-1">
+            {!lanes && (
+              <div className="absolute inset-0 z-10 flex items-center justify-center text-xs text-zinc-400 gap-2">
+                <Loader2 size={14} className="animate-spin" /> Analysing...
+              </div>
+            )}
+            <canvas ref={originalCanvasRef} className="w-full h-10 block" />
+            <canvas ref={takeCanvasRef} className="w-full h-10 block" />
+            <div className="relative">
+              <canvas ref={pitchCanvasRef} className="w-full h-16 block bg-black/30 rounded" />
+              <span className="absolute left-1 top-0.5 text-[9px] uppercase tracking-wider text-zinc-500">Pitch</span>
+            </div>
+            {playheadLeft && (
+              <div className="absolute top-0 bottom-0 w-px bg-white/80 pointer-events-none" style={{ left: playheadLeft }} />
+            )}
+          </div>
+        )}
+
+        {lanes && (
+          <div className="flex justify-between mt-1 text-[10px] font-mono text-zinc-500">
+            <span>0:00.00</span>
+            <span>Aligned at first syllable · pitch relative to each voice</span>
+            <span>{formatTimestamp(axisDuration)}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,214 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowLeft, BookMarked, FileSpreadsheet, Layers, Play, Search, Square, Trash2 } from 'lucide-react';
+import { Material, VocabularyEntry } from '../types';
+import { loadVocabulary, removeVocabularyEntry } from '../services/vocabularyService';
+import { isSpeechSupported, getPreferredVoiceURI, speak } from '../services/speechService';
+import { formatAnkiTsv, formatVocabularyCsv } from '../utils/vocabularyExport';
+import { formatTimestamp } from '../utils/audioUtils';
+import { downloadBlob } from '../utils/fileUtils';
+
+interface VocabularyNotebookProps {
+  materials: Material[];
+  onClose: () => void;
+}
+
+export const VocabularyNotebook: React.FC<VocabularyNotebookProps> = ({ materials, onClose }) => {
+  const [entries, setEntries] = useState<VocabularyEntry[]>(() => loadVocabulary());
+  const [query, setQuery] = useState('');
+  const [materialFilter, setMaterialFilter] = useState('all');
+  const [playingId, setPlayingId] = useState<string | null>(null);
+
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const stopAtRef = useRef<number | null>(null);
+  const cancelSpeechRef = useRef<(() => void) | null>(null);
+
+  const materialTitles = useMemo(() => {
+    const titles: Record<string, string> = {};
+    materials.forEach(m => { titles[m.id] = m.title; });
+    return titles;
+  }, [materials]);
+
+  // Only materials that actually have saved words are worth filtering by
+  const filterOptions = useMemo(() => {
+    const ids = Array.from(new Set(entries.map(e => e.materialId)));
+    return ids.map(id => ({ id, title: materialTitles[id] ?? 'Deleted material' }));
+  }, [entries, materialTitles]);
+
+  const visibleEntries = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return entries
+      .filter(e => materialFilter === 'all' || e.materialId === materialFilter)
+      .filter(e => !q || e.word.toLowerCase().includes(q) || e.definition.toLowerCase().includes(q) || e.segmentText.toLowerCase().includes(q))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }, [entries, query, materialFilter]);
+
+  // --- Clip Playback ---
+  const stopClip = () => {
+    audioRef.current?.pause();
+    stopAtRef.current = null;
+    cancelSpeechRef.current?.();
+    cancelSpeechRef.current = null;
+    setPlayingId(null);
+  };
+
+  useEffect(() => () => stopClip(), []);
+
+  const playClip = (entry: VocabularyEntry) => {
+    const wasPlaying = playingId === entry.id;
+    stopClip();
+    if (wasPlaying) return;
+
+    const material = materials.find(m => m.id === entry.materialId);
+    if (material?.audioUrl && audioRef.current) {
+      const audio = audioRef.current;
+      if (audio.dataset.materialId !== material.id) {
+        audio.src = material.audioUrl;
+        audio.dataset.materialId = material.id;
+      }
+      audio.currentTime = entry.startTime;
+      stopAtRef.current = entry.endTime;
+      audio.play().catch(e => {
+        console.error("Clip playback error", e);
+        setPlayingId(null);
+      });
+      setPlayingId(entry.id);
+    } else if (isSpeechSupported()) {
+      // Text-only materials fall back to reading the sentence aloud
+      cancelSpeechRef.current = speak(entry.segmentText, {
+        voiceURI: getPreferredVoiceURI(),
+        onEnd: () => {
+          cancelSpeechRef.current = null;
+          setPlayingId(null);
+        },
+      });
+      setPlayingId(entry.id);
+    } else {
+      alert("This sentence has no audio to play.");
+    }
+  };
+
+  const handleTimeUpdate = () => {
+    const audio = audioRef.current;
+    if (audio && stopAtRef.current !== null && audio.currentTime >= stopAtRef.current) stopClip();
+  };
+
+  // --- Editing & Export ---
+  const handleDelete = (entry: VocabularyEntry) => {
+    if (playingId === entry.id) stopClip();
+    setEntries(removeVocabularyEntry(entry.id));
+  };
+
+  const exportEntries = (format: 'csv' | 'anki') => {
+    if (visibleEntries.length === 0) return;
+    const content = format === 'csv'
+      ? formatVocabularyCsv(visibleEntries, materialTitles)
+      : formatAnkiTsv(visibleEntries, materialTitles);
+    const type = format === 'csv' ? 'text/csv' : 'text/tab-separated-values';
+    downloadBlob(new Blob([content], { type }), format === 'csv' ? 'vocabulary.csv' : 'vocabulary-anki.txt');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#09090b] flex flex-col animate-in fade-in duration-300">
+      <audio ref={audioRef} onTimeUpdate={handleTimeUpdate} onEnded={() => setPlayingId(null)} />
+
+      <header className="flex-none px-4 py-4 md:px-6 flex items-center justify-between bg-zinc-950/80 backdrop-blur-md border-b border-white/5">
+        <button onClick={onClose} className="p-2 -ml-2 text-zinc-400 hover:text-white rounded-full hover:bg-white/10 transition-colors">
+          <ArrowLeft size={24} />
+        </button>
+        <h1 className="text-lg font-bold text-white flex items-center gap-2">
+          <BookMarked size={18} className="text-sky-400" /> Vocabulary
+        </h1>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => exportEntries('csv')}
+            disabled={visibleEntries.length === 0}
+            className="p-2 text-zinc-400 hover:text-white rounded-full hover:bg-white/10 transition-colors disabled:opacity-30"
+            title="Export CSV"
+          >
+            <FileSpreadsheet size={18} />
+          </button>
+          <button
+            onClick={() => exportEntries('anki')}
+            disabled={visibleEntries.length === 0}
+            className="p-2 text-zinc-400 hover:text-white rounded-full hover:bg-white/10 transition-colors disabled:opacity-30"
+            title="Export for Anki (TSV)"
+          >
+            <Layers size={18} />
+          </button>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto px-6 no-scrollbar">
+        <div className="max-w-2xl mx-auto py-6 space-y-4">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <div className="relative flex-1">
+              <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-500" />
+              <input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search words, definitions, sentences..."
+                className="w-full bg-zinc-900 border border-zinc-800 rounded-lg pl-9 pr-3 py-2 text-sm text-white focus:outline-none focus:border-sky-500"
+              />
+            </div>
+            <select
+              value={materialFilter}
+              onChange={(e) => setMaterialFilter(e.target.value)}
+              className="bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-sky-500"
+            >
+              <option value="all">All materials</option>
+              {filterOptions.map(option => (
+                <option key={option.id} value={option.id}>{option.title}</option>
+              ))}
+            </select>
+          </div>
+
+          <p className="text-xs text-zinc-500">
+            {visibleEntries.length} of {entries.length} words. Exports include the words shown.
+          </p>
+
+          {entries.length === 0 ? (
+            <div className="text-center py-20 text-zinc-500">
+              <BookMarked size={40} className="mx-auto mb-4 opacity-40" />
+              <p>No saved words yet.</p>
+              <p className="text-sm">Click a word in the active sentence (or long-press any visible word) to look it up and save it.</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {visibleEntries.map(entry => (
+                <div key={entry.id} className="rounded-xl bg-zinc-900/50 border border-zinc-800 p-4">
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <h3 className="text-lg font-serif font-bold text-white">{entry.word}</h3>
+                      <p className="text-sm text-zinc-300 mt-1">{entry.definition}</p>
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <button
+                        onClick={() => playClip(entry)}
+                        className="p-2 bg-zinc-800 hover:bg-zinc-700 rounded-md text-white transition-colors"
+                        title="Play the sentence"
+                      >
+                        {playingId === entry.id ? <Square size={12} fill="currentColor" /> : <Play size={12} fill="currentColor" />}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(entry)}
+                        className="p-2 hover:bg-red-500/20 text-zinc-500 hover:text-red-500 rounded-md transition-colors"
+                        title="Remove word"
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                  </div>
+                  <p className="text-sm font-serif italic text-zinc-400 mt-3 border-l-2 border-zinc-700 pl-3">{entry.segmentText}</p>
+                  <div className="flex justify-between mt-2 text-[10px] text-zinc-600">
+                    <span className="uppercase tracking-wider">{materialTitles[entry.materialId] ?? 'Deleted material'}</span>
+                    <span className="font-mono">{formatTimestamp(entry.startTime)} – {formatTimestamp(entry.endTime)}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BookmarkCheck, BookmarkPlus, Loader2, X } from 'lucide-react';
+import { Segment } from '../types';
+import { getAIErrorMessage } from '../services/aiProvider';
+import { addVocabularyEntry, findVocabularyEntry, loadVocabulary, lookupWord } from '../services/vocabularyService';
+import { normalizeWord } from '../utils/textUtils';
+
+interface WordPopoverProps {
+  word: string;
+  materialId: string;
+  segment: Segment;
+  anchor: DOMRect; // Bounding box of the clicked word
+  onClose: () => void;
+}
+
+const POPOVER_WIDTH = 288;
+
+export const WordPopover: React.FC<WordPopoverProps> = ({ word, materialId, segment, anchor, onClose }) => {
+  const [definition, setDefinition] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaved, setIsSaved] = useState(false);
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDefinition(null);
+    setError(null);
+    setIsSaved(!!findVocabularyEntry(loadVocabulary(), materialId, segment.id, word));
+    lookupWord(materialId, segment, word)
+      .then(text => { if (!cancelled) setDefinition(text); })
+      .catch(e => { if (!cancelled) setError(getAIErrorMessage(e)); });
+    return () => { cancelled = true; };
+  }, [word, materialId, segment.id]);
+
+  // Close on Escape or a click anywhere else
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    const handlePointerDown = (e: PointerEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(e.target as Node)) onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('pointerdown', handlePointerDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('pointerdown', handlePointerDown);
+    };
+  }, [onClose]);
+
+  const handleSave = () => {
+    if (!definition || isSaved) return;
+    addVocabularyEntry(materialId, segment, word, definition);
+    setIsSaved(true);
+  };
+
+  // Below the word, kept inside the viewport; flips above when there's no room
+  const left = Math.max(8, Math.min(anchor.left + anchor.width / 2 - POPOVER_WIDTH / 2, window.innerWidth - POPOVER_WIDTH - 8));
+  const placeAbove = anchor.bottom + 180 > window.innerHeight;
+  const position: React.CSSProperties = placeAbove
+    ? { left, bottom: window.innerHeight - anchor.top + 8, width: POPOVER_WIDTH }
+    : { left, top: anchor.bottom + 8, width: POPOVER_WIDTH };
+
+  return (
+    <div
+      ref={popoverRef}
+      style={position}
+      className="fixed z-[70] bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl p-4 animate-in fade-in duration-150"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <h3 className="text-lg font-serif font-bold text-white">{normalizeWord(word)}</h3>
+        <button onClick={onClose} className="p-1 text-zinc-500 hover:text-white rounded-md" title="Close">
+          <X size={14} />
+        </button>
+      </div>
+
+      {error ? (
+        <p className="text-sm leading-relaxed text-red-400">{error}</p>
+      ) : definition === null ? (
+        <div className="flex items-center gap-2 text-xs text-zinc-400 py-2">
+          <Loader2 size={14} className="animate-spin" /> Looking up...
+        </div>
+      ) : (
+        <p className="text-sm leading-relaxed text-zinc-300">{definition}</p>
+      )}
+
+      <button
+        onClick={handleSave}
+        disabled={!definition || isSaved}
+        className={`mt-3 w-full flex items-center justify-center gap-2 py-2 rounded-lg text-xs font-bold transition-colors disabled:cursor-default ${isSaved ? 'bg-emerald-500/15 text-emerald-300' : 'bg-sky-500 hover:bg-sky-400 text-white disabled:opacity-40'}`}
+      >
+        {isSaved ? <><BookmarkCheck size={14} /> Saved to vocabulary</> : <><BookmarkPlus size={14} /> Save to vocabulary</>}
+      </button>
+    </div>
+  );
+};
@@ -25,6 +25,12 @@ export const MOCK_MATERIALS: Material[] = [
       { id: 's8', startTime: 35, endTime: 42, text: "Embracing silence allows us to hear our own thoughts clearly, distinguishing them from the noise of society." },
       { id: 's9', startTime: 42, endTime: 48, text: "It is in these quiet moments that our deepest insights and most creative ideas are often born." },
       { id: 's10', startTime: 48, endTime: 55, text: "So, the next time you feel the urge to fill the silence, try simply listening to it instead." }
+    ],
+    quiz: [
+      { id: 'q1-1', type: 'multiple-choice', prompt: "According to research, what can time in silence regenerate?", options: ["Muscle tissue", "Brain cells in the hippocampus", "Hearing ability", "Sleep cycles"], answerIndex: 1, segmentId: 's4' },
+      { id: 'q1-2', type: 'true-false', prompt: "The speaker says true silence is simply the absence of sound.", options: ["True", "False"], answerIndex: 1, segmentId: 's3', explanation: "True silence is \"not the absence of sound, but the presence of focus.\"" },
+      { id: 'q1-3', type: 'multiple-choice', prompt: "What is the hippocampus responsible for?", options: ["Memory, emotion, and learning", "Balance and movement", "Vision and hearing", "Breathing"], answerIndex: 0, segmentId: 's5' },
+      { id: 'q1-4', type: 'true-false', prompt: "The speaker compares the mind to muscles that need rest.", options: ["True", "False"], answerIndex: 0, segmentId: 's7' }
     ]
   },
   {
@@ -53,6 +59,12 @@ export const MOCK_MATERIALS: Material[] = [
       { id: 't14', startTime: 185, endTime: 200, text: "In fact, any kind of exercise can become a healthy habit for dealing with stress if you do it often. Of course, it's also important to get enough sleep, eat a healthy diet, and find time to connect socially." },
       { id: 't15', startTime: 200, endTime: 215, text: "To communicate and spend time with our friends and family members. Listen to music, take a yoga class, or find another way to relax." },
       { id: 't16', startTime: 215, endTime: 225, text: "And remember, when you do feel stress, you should try to keep a positive attitude about it. Think of stress as something that can be helpful, and don't let stress prevent you from living a healthy life." }
+    ],
+    quiz: [
+      { id: 'q4-1', type: 'multiple-choice', prompt: "What is the speaker's job?", options: ["A doctor", "A public health nurse", "A psychologist", "A teacher"], answerIndex: 1, segmentId: 't1' },
+      { id: 'q4-2', type: 'true-false', prompt: "The speaker says stress is always harmful.", options: ["True", "False"], answerIndex: 1, segmentId: 't8', explanation: "She adds that \"stress can be helpful, too.\"" },
+      { id: 'q4-3', type: 'true-false', prompt: "Kelly McGonigal says stress can help us do difficult things.", options: ["True", "False"], answerIndex: 0, segmentId: 't9' },
+      { id: 'q4-4', type: 'multiple-choice', prompt: "How often does the speaker recommend exercising?", options: ["Every day for an hour", "Two days a week", "At least four or five days a week", "Only at weekends"], answerIndex: 2, segmentId: 't13' }
     ]
   },
   {
@@ -70,6 +82,11 @@ export const MOCK_MATERIALS: Material[] = [
       { id: 'a3', startTime: 12, endTime: 18, text: "This simple mechanism, when scaled with massive data, produces emergent behaviors that mimic reasoning." },
       { id: 'a4', startTime: 18, endTime: 25, text: "However, it is crucial to remember that these models do not 'know' facts in the way humans do." },
       { id: 'a5', startTime: 25, endTime: 32, text: "They operate on patterns, correlations, and statistical likelihoods." }
+    ],
+    quiz: [
+      { id: 'q2-1', type: 'true-false', prompt: "AI became part of everyday life in less than a decade.", options: ["True", "False"], answerIndex: 0, segmentId: 'a1' },
+      { id: 'q2-2', type: 'multiple-choice', prompt: "How do large language models work?", options: ["By searching the internet", "By predicting the probability of the next word", "By copying human memory", "By following fixed rules"], answerIndex: 1, segmentId: 'a2' },
+      { id: 'q2-3', type: 'true-false', prompt: "According to the speaker, these models know facts the way humans do.", options: ["True", "False"], answerIndex: 1, segmentId: 'a4' }
     ]
   },
   {
@@ -85,6 +102,10 @@ export const MOCK_MATERIALS: Material[] = [
       { id: 'm1', startTime: 0, endTime: 6, text: "The way you start your morning can set the tone for the entire day." },
       { id: 'm2', startTime: 6, endTime: 12, text: "Avoiding your phone for the first thirty minutes helps reduce cortisol levels." },
       { id: 'm3', startTime: 12, endTime: 18, text: "Hydration is equally important, as the body loses water during sleep." }
+    ],
+    quiz: [
+      { id: 'q3-1', type: 'multiple-choice', prompt: "How long should you avoid your phone after waking up?", options: ["Ten minutes", "The first thirty minutes", "An hour", "All morning"], answerIndex: 1, segmentId: 'm2' },
+      { id: 'q3-2', type: 'true-false', prompt: "The body loses water during sleep.", options: ["True", "False"], answerIndex: 0, segmentId: 'm3' }
     ]
   }
 ];
\ No newline at end of file
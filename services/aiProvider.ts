@@ -0,0 +1,267 @@
+import { Material, QuizQuestionType } from "../types";
+import { isRecord } from "../utils/materialValidation";
+
+// --- Provider Contract ---
+
+export type AIProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+/** What a provider returns for a generated lesson, before ids, artwork and audio are attached. */
+export interface MaterialDraft {
+  title: string;
+  description: string;
+  category: string;
+  difficulty: Material['difficulty'];
+  segments: { text: string; startTime: number; endTime: number; speaker?: string }[];
+}
+
+// --- Generation Options ---
+
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+export type Register = 'article' | 'conversation' | 'lecture' | 'news';
+export type Accent = 'us' | 'uk';
+
+export interface GenerationOptions {
+  level: CefrLevel;
+  segmentCount: number;
+  focus: string[]; // Grammar points or words the text should practise
+  register: Register;
+  speakers: number; // Only used for conversations
+  accent: Accent; // Spelling and vocabulary, and the voice that reads the lesson
+}
+
+export const CEFR_LEVELS: CefrLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+export const REGISTER_LABELS: Record<Register, string> = {
+  article: 'Article',
+  conversation: 'Conversation',
+  lecture: 'Lecture',
+  news: 'News',
+};
+
+export const ACCENT_LABELS: Record<Accent, string> = {
+  us: 'American',
+  uk: 'British',
+};
+
+// Stored on generated materials so text-to-speech picks a matching voice
+export const ACCENT_LANGS: Record<Accent, string> = {
+  us: 'en-US',
+  uk: 'en-GB',
+};
+
+export const SEGMENT_COUNT_RANGE = { min: 3, max: 20 };
+export const MAX_SPEAKERS = 4;
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  level: 'B1',
+  segmentCount: 6,
+  focus: [],
+  register: 'article',
+  speakers: 2,
+  accent: 'us',
+};
+
+const CEFR_DIFFICULTY: Record<CefrLevel, Material['difficulty']> = {
+  A1: 'Easy', A2: 'Easy', B1: 'Medium', B2: 'Medium', C1: 'Hard', C2: 'Hard',
+};
+
+const CEFR_GUIDANCE: Record<CefrLevel, string> = {
+  A1: 'very short sentences, present tense, the 500 most common words',
+  A2: 'short sentences, simple past and future, everyday vocabulary',
+  B1: 'clear connected sentences on familiar topics, some phrasal verbs',
+  B2: 'varied sentence structures, some idioms, topic-specific vocabulary',
+  C1: 'complex sentences, nuanced vocabulary, implicit meaning',
+  C2: 'native-like style, rich idiomatic and academic language',
+};
+
+const REGISTER_GUIDANCE: Record<Register, string> = {
+  article: 'a short educational article',
+  conversation: 'a natural spoken conversation',
+  lecture: 'an excerpt from a spoken lecture',
+  news: 'a radio news report',
+};
+
+export const cefrToDifficulty = (level: CefrLevel) => CEFR_DIFFICULTY[level];
+
+/** Articles keep the model's topical category; the other registers are filed by register. */
+export const getGeneratedCategory = (options: GenerationOptions, modelCategory: string) =>
+  options.register === 'article' ? modelCategory : REGISTER_LABELS[options.register];
+
+export const getSpeakerCount = (options: GenerationOptions) =>
+  options.register === 'conversation' ? Math.min(MAX_SPEAKERS, Math.max(2, options.speakers)) : 1;
+
+/** A generated question; `sentence` is the 1-based number of the sentence holding the answer. */
+export interface QuizDraft {
+  type?: QuizQuestionType; // Guessed from the options when missing
+  prompt: string;
+  options: string[];
+  answerIndex: number;
+  sentence: number;
+  explanation?: string;
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  generateMaterial: (topic: string, options: GenerationOptions) => Promise<MaterialDraft>;
+  generateQuiz: (sentences: string[], count: number) => Promise<QuizDraft[]>;
+  defineWord: (word: string, context: string) => Promise<string>;
+}
+
+export interface AISettings {
+  provider: AIProviderId;
+  geminiModel: string;
+  localBaseUrl: string; // OpenAI-compatible server root, e.g. http://localhost:11434/v1
+  localModel: string;
+  localApiKey: string; // Most local servers ignore it, hosted gateways need it
+}
+
+// --- Errors ---
+
+export type AIErrorCode =
+  | 'not-configured' // Missing key, URL or model
+  | 'network' // Server unreachable or request blocked
+  | 'http' // Server answered with an error status
+  | 'invalid-response'; // Answer arrived but was empty or not the JSON we asked for
+
+export class AIProviderError extends Error {
+  code: AIErrorCode;
+  provider: AIProviderId;
+
+  constructor(code: AIErrorCode, provider: AIProviderId, message: string) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.code = code;
+    this.provider = provider;
+  }
+}
+
+export const getAIErrorMessage = (error: unknown): string => {
+  if (error instanceof AIProviderError) return error.message;
+  return "The AI request failed unexpectedly.";
+};
+
+// --- Shared Prompts & Parsing ---
+
+export const buildMaterialPrompt = (topic: string, options: GenerationOptions) => {
+  const speakers = getSpeakerCount(options);
+  const lines = [
+    `Generate ${REGISTER_GUIDANCE[options.register]} about "${topic}" for English learners at CEFR level ${options.level}.`,
+    `Use ${CEFR_GUIDANCE[options.level]}.`,
+    `Write in ${ACCENT_LABELS[options.accent]} English, with its spelling, vocabulary and idioms.`,
+    speakers > 1
+      ? `Write it as a dialogue between ${speakers} speakers. Give each speaker a first name and put it in every segment's "speaker" field; keep the name out of the text. Each segment is one speaker's turn.`
+      : '',
+    options.focus.length > 0 ? `Naturally include and practise: ${options.focus.join(', ')}.` : '',
+  ].filter(Boolean);
+
+  return `${lines.join('\n    ')}
+    The output must be a valid JSON object matching the following schema.
+    Divide the text into exactly ${options.segmentCount} short segments suitable for listening practice.
+    Assign hypothetical timestamps assuming a slow reading speed (approx 4-6 seconds per sentence).
+    
+    Schema:
+    {
+      "title": "string",
+      "description": "string",
+      "category": "string",
+      "difficulty": "Easy" | "Medium" | "Hard",
+      "segments": [
+        {
+          "text": "string",
+          "startTime": number,
+          "endTime": number,
+          "speaker": "string (dialogues only)"
+        }
+      ]
+    }`;
+};
+
+export const buildQuizPrompt = (sentences: string[], count: number) => `Write ${count} comprehension questions for English learners about this listening text.
+    Mix multiple-choice questions (4 options) and true/false questions. Every question must be answerable from exactly one sentence.
+    
+    Sentences:
+    ${sentences.map((text, i) => `${i + 1}. ${text}`).join('\n    ')}
+    
+    The output must be a valid JSON object matching the following schema.
+    For true/false questions use the options ["True", "False"].
+    
+    Schema:
+    {
+      "questions": [
+        {
+          "type": "multiple-choice" | "true-false",
+          "prompt": "string",
+          "options": ["string"],
+          "answerIndex": number,
+          "sentence": number,
+          "explanation": "string"
+        }
+      ]
+    }`;
+
+export const buildDefinitionPrompt = (word: string, context: string) =>
+  `Define the word "${word}" briefly (under 30 words) as it is used in this context: "${context}". Return just the definition.`;
+
+const DIFFICULTIES: Material['difficulty'][] = ['Easy', 'Medium', 'Hard'];
+
+// Tolerates markdown code fences and chatter around the object, which local models often add
+const parseJsonObject = (text: string, provider: AIProviderId): unknown => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  try {
+    return JSON.parse(start >= 0 && end > start ? text.slice(start, end + 1) : text);
+  } catch {
+    throw new AIProviderError('invalid-response', provider, "The model did not return valid JSON.");
+  }
+};
+
+/** Parses a model's JSON answer into a draft. */
+export const parseMaterialDraft = (text: string, provider: AIProviderId): MaterialDraft => {
+  const data = parseJsonObject(text, provider);
+  if (!isRecord(data) || typeof data.title !== 'string' || !Array.isArray(data.segments) || data.segments.length === 0) {
+    throw new AIProviderError('invalid-response', provider, "The model's answer is missing a title or sentences.");
+  }
+
+  return {
+    title: data.title,
+    description: typeof data.description === 'string' ? data.description : '',
+    category: typeof data.category === 'string' && data.category ? data.category : "General",
+    difficulty: DIFFICULTIES.find(d => d === data.difficulty) ?? "Medium",
+    // Timings are passed through as-is (NaN when missing); validateMaterial repairs them
+    segments: data.segments.map((s: unknown) => {
+      const seg = isRecord(s) ? s : {};
+      return {
+        text: String(seg.text ?? ''),
+        startTime: typeof seg.startTime === 'number' ? seg.startTime : Number.NaN,
+        endTime: typeof seg.endTime === 'number' ? seg.endTime : Number.NaN,
+        speaker: typeof seg.speaker === 'string' && seg.speaker.trim() ? seg.speaker.trim() : undefined,
+      };
+    }),
+  };
+};
+
+/** Parses the quiz JSON; individual questions are checked later by validateQuiz. */
+export const parseQuizDrafts = (text: string, provider: AIProviderId): QuizDraft[] => {
+  const data = parseJsonObject(text, provider);
+  if (!isRecord(data) || !Array.isArray(data.questions) || data.questions.length === 0) {
+    throw new AIProviderError('invalid-response', provider, "The model's answer contains no questions.");
+  }
+  // Unusable fields become empty or NaN so validateQuiz rejects them with a reason
+  return data.questions.map((q: unknown): QuizDraft => {
+    const question = isRecord(q) ? q : {};
+    return {
+      type: question.type === 'true-false' || question.type === 'multiple-choice' ? question.type : undefined,
+      prompt: typeof question.prompt === 'string' ? question.prompt : '',
+      options: Array.isArray(question.options) ? question.options.map(o => (typeof o === 'string' ? o : '')) : [],
+      answerIndex: typeof question.answerIndex === 'number' ? question.answerIndex : Number.NaN,
+      sentence: typeof question.sentence === 'number' ? question.sentence : Number(question.sentence),
+      explanation: typeof question.explanation === 'string' ? question.explanation : undefined,
+    };
+  });
+};
+
+export const requireText = (text: string | undefined, provider: AIProviderId, what: string): string => {
+  const trimmed = text?.trim();
+  if (!trimmed) throw new AIProviderError('invalid-response', provider, `The model returned an empty ${what}.`);
+  return trimmed;
+};
@@ -0,0 +1,136 @@
+import { Material, QuizQuestion } from "../types";
+import { ACCENT_LANGS, AIProvider, AIProviderError, AIProviderId, AISettings, DEFAULT_GENERATION_OPTIONS, GenerationOptions, cefrToDifficulty, getGeneratedCategory } from "./aiProvider";
+import { createGeminiProvider } from "./geminiService";
+import { createOpenAICompatibleProvider } from "./localLlmService";
+import { createMockProvider } from "./mockAiService";
+import { summarizeValidation, validateMaterial, validateQuiz } from "../utils/materialValidation";
+import { assignSpeakerPrefixes } from "../utils/speakers";
+
+const STORAGE_KEY = 'blurlisten_ai_settings';
+const OPTIONS_STORAGE_KEY = 'blurlisten_generation_options';
+
+export const QUIZ_LENGTH_OPTIONS = [3, 5, 8];
+
+export const AI_PROVIDER_LABELS: Record<AIProviderId, { title: string; hint: string }> = {
+  gemini: { title: 'Google Gemini', hint: 'Uses the API_KEY configured for this app' },
+  'openai-compatible': { title: 'Local / OpenAI-compatible', hint: 'Ollama, llama.cpp, LM Studio or any /v1/chat/completions server' },
+  mock: { title: 'Offline mock', hint: 'Canned, repeatable answers for development and demos' },
+};
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'gemini',
+  geminiModel: 'gemini-2.5-flash',
+  localBaseUrl: 'http://localhost:11434/v1',
+  localModel: 'llama3.1',
+  localApiKey: '',
+};
+
+export const loadAISettings = (): AISettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_AI_SETTINGS, ...JSON.parse(saved) } : DEFAULT_AI_SETTINGS;
+  } catch (e) {
+    console.error("Failed to load AI settings", e);
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAISettings = (settings: AISettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save AI settings", e);
+  }
+};
+
+// The generator form remembers the last options used
+export const loadGenerationOptions = (): GenerationOptions => {
+  try {
+    const saved = localStorage.getItem(OPTIONS_STORAGE_KEY);
+    return saved ? { ...DEFAULT_GENERATION_OPTIONS, ...JSON.parse(saved) } : DEFAULT_GENERATION_OPTIONS;
+  } catch (e) {
+    console.error("Failed to load generation options", e);
+    return DEFAULT_GENERATION_OPTIONS;
+  }
+};
+
+export const saveGenerationOptions = (options: GenerationOptions) => {
+  try {
+    localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify(options));
+  } catch (e) {
+    console.error("Failed to save generation options", e);
+  }
+};
+
+export const getAIProvider = (settings = loadAISettings()): AIProvider => {
+  switch (settings.provider) {
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(settings);
+    case 'mock':
+      return createMockProvider();
+    default:
+      return createGeminiProvider(settings);
+  }
+};
+
+/** Generates a new lesson with the selected provider. Throws `AIProviderError` on failure. */
+export const generateMaterial = async (topic: string, options = DEFAULT_GENERATION_OPTIONS): Promise<Material> => {
+  const provider = getAIProvider();
+  const draft = await provider.generateMaterial(topic, options);
+
+  // Transform into our internal Material type; duration is derived from the timings
+  const result = validateMaterial({
+    ...draft,
+    // Some models still write "Anna: ..." into the text instead of the speaker field
+    segments: assignSpeakerPrefixes(draft.segments),
+    id: `gen-${Date.now()}`,
+    // The requested level and register win over whatever the model labelled it
+    difficulty: cefrToDifficulty(options.level),
+    category: getGeneratedCategory(options, draft.category),
+    // Use Pollinations AI to generate a relevant image based on the topic
+    imageUrl: `https://image.pollinations.ai/prompt/${encodeURIComponent(topic + " cinematic lighting abstract wallpaper")}?width=800&height=600&nologo=true`,
+    audioUrl: "", // No real audio for generated content in this demo
+    lang: ACCENT_LANGS[options.accent],
+  }, { reassignIds: true });
+
+  if (!result.material) {
+    throw new AIProviderError('invalid-response', provider.id, `The generated lesson was unusable: ${result.rejected.join(' ')}`);
+  }
+  if (result.repairs.length > 0 || result.rejected.length > 0) {
+    console.warn(`Generated material repaired: ${summarizeValidation(result)}`, result);
+  }
+  return result.material;
+};
+
+/**
+ * Writes comprehension questions for the material, each linked to the sentence
+ * that answers it. Throws `AIProviderError` on failure or when no question is usable.
+ */
+export const generateQuiz = async (material: Material, count = QUIZ_LENGTH_OPTIONS[1]): Promise<QuizQuestion[]> => {
+  const provider = getAIProvider();
+  // Dialogue lines keep their speaker so questions can ask who said what
+  const drafts = await provider.generateQuiz(material.segments.map(s => (s.speaker ? `${s.speaker}: ${s.text}` : s.text)), count);
+
+  const stamp = Date.now();
+  const result = validateQuiz(
+    drafts.map(({ sentence, ...question }, i) => ({
+      ...question,
+      id: `${material.id}-q${stamp}-${i}`,
+      segmentId: material.segments[Number(sentence) - 1]?.id,
+    })),
+    material.segments,
+    material.id,
+  );
+
+  if (result.questions.length === 0) {
+    throw new AIProviderError('invalid-response', provider.id, `None of the generated questions were usable: ${result.rejected.join(' ')}`);
+  }
+  if (result.rejected.length > 0) {
+    console.warn(`Dropped ${result.rejected.length} generated question(s)`, result.rejected);
+  }
+  return result.questions;
+};
+
+/** Defines a word in context with the selected provider. Throws `AIProviderError` on failure. */
+export const getWordDefinition = (word: string, context: string): Promise<string> =>
+  getAIProvider().defineWord(word, context);
@@ -0,0 +1,75 @@
+// Shared IndexedDB connection.
+// Anything binary (audio) or potentially large lives here instead of localStorage,
+// which only holds strings and runs out of quota after a couple of imported lessons.
+
+const DB_NAME = 'blurlisten';
+const DB_VERSION = 2;
+
+export const STORES = {
+  materials: 'materials',
+  audio: 'audio',
+  recordings: 'recordings',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser."));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.materials)) {
+        db.createObjectStore(STORES.materials, { keyPath: 'id' });
+      }
+      // Audio blobs are keyed by material id (out-of-line keys)
+      if (!db.objectStoreNames.contains(STORES.audio)) {
+        db.createObjectStore(STORES.audio);
+      }
+      // Added in v2: shadowing takes, looked up per material
+      if (!db.objectStoreNames.contains(STORES.recordings)) {
+        const recordings = db.createObjectStore(STORES.recordings, { keyPath: 'id' });
+        recordings.createIndex('materialId', 'materialId');
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version opened in another tab upgrade instead of waiting on us
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    // An older version is still open elsewhere and didn't close for the upgrade
+    request.onblocked = () => reject(new Error("Storage can't be upgraded while this app is open in another tab. Close the other tabs and reload."));
+  });
+
+  // Allow a retry on the next call instead of caching the failure forever
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+};
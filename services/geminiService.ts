@@ -1,5 +1,5 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { Material } from "../types";
+import { ApiError, GoogleGenAI, Type } from "@google/genai";
+import { AIProvider, AIProviderError, AISettings, buildDefinitionPrompt, buildMaterialPrompt, buildQuizPrompt, parseMaterialDraft, parseQuizDrafts, requireText } from "./aiProvider";
 
 // Helper to safely get the AI client
 // We initialize this inside functions to prevent the app from crashing on load 
@@ -7,107 +7,94 @@ import { Material } from "../types";
 const getGenAI = () => {
   const apiKey = process.env.API_KEY;
   if (!apiKey) {
-    console.warn("API_KEY is missing. Generative features will fail.");
-    return null;
+    throw new AIProviderError('not-configured', 'gemini', "Gemini API key is missing. Set API_KEY or pick another AI provider in settings.");
   }
   return new GoogleGenAI({ apiKey });
 };
 
-export const generateMaterial = async (topic: string): Promise<Material | null> => {
-  try {
-    const ai = getGenAI();
-    if (!ai) return null;
-
-    const model = "gemini-2.5-flash";
-    const prompt = `Generate a short educational article about "${topic}".
-    The output must be a valid JSON object matching the following schema.
-    Divide the text into 5 to 8 short segments suitable for listening practice.
-    Assign hypothetical timestamps assuming a slow reading speed (approx 4-6 seconds per sentence).
-    
-    Schema:
-    {
-      "title": "string",
-      "description": "string",
-      "category": "string",
-      "difficulty": "Easy" | "Medium" | "Hard",
-      "segments": [
-        {
-          "text": "string",
-          "startTime": number,
-          "endTime": number
-        }
-      ]
-    }`;
+const toProviderError = (error: unknown): AIProviderError => {
+  if (error instanceof AIProviderError) return error;
+  console.error("Gemini request error:", error);
+  if (error instanceof ApiError) {
+    return new AIProviderError('http', 'gemini', `Gemini rejected the request (${error.status}).`);
+  }
+  return new AIProviderError('network', 'gemini', "Could not reach Gemini. Check your connection.");
+};
 
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            title: { type: Type.STRING },
-            description: { type: Type.STRING },
-            category: { type: Type.STRING },
-            difficulty: { type: Type.STRING, enum: ["Easy", "Medium", "Hard"] },
-            segments: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  text: { type: Type.STRING },
-                  startTime: { type: Type.NUMBER },
-                  endTime: { type: Type.NUMBER }
-                },
-                required: ["text", "startTime", "endTime"]
-              }
-            }
-          },
-          required: ["title", "description", "segments"]
-        }
+const MATERIAL_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    description: { type: Type.STRING },
+    category: { type: Type.STRING },
+    difficulty: { type: Type.STRING, enum: ["Easy", "Medium", "Hard"] },
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          startTime: { type: Type.NUMBER },
+          endTime: { type: Type.NUMBER },
+          speaker: { type: Type.STRING }
+        },
+        required: ["text", "startTime", "endTime"]
       }
-    });
-
-    const data = JSON.parse(response.text || "{}");
-    
-    // Transform into our internal Material type
-    return {
-      id: Date.now().toString(),
-      title: data.title,
-      description: data.description,
-      category: data.category || "General",
-      difficulty: data.difficulty || "Medium",
-      duration: "1:00", // Mock duration
-      // Use Pollinations AI to generate a relevant image based on the topic
-      imageUrl: `https://image.pollinations.ai/prompt/${encodeURIComponent(topic + " cinematic lighting abstract wallpaper")}?width=800&height=600&nologo=true`,
-      audioUrl: "", // No real audio for generated content in this demo
-      segments: data.segments.map((s: any, idx: number) => ({
-        id: `gen-${idx}`,
-        text: s.text,
-        startTime: s.startTime,
-        endTime: s.endTime
-      }))
-    };
+    }
+  },
+  required: ["title", "description", "segments"]
+};
 
-  } catch (error) {
-    console.error("Gemini generation error:", error);
-    return null;
-  }
+const QUIZ_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    questions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING, enum: ["multiple-choice", "true-false"] },
+          prompt: { type: Type.STRING },
+          options: { type: Type.ARRAY, items: { type: Type.STRING } },
+          answerIndex: { type: Type.INTEGER },
+          sentence: { type: Type.INTEGER },
+          explanation: { type: Type.STRING }
+        },
+        required: ["type", "prompt", "options", "answerIndex", "sentence"]
+      }
+    }
+  },
+  required: ["questions"]
 };
 
-export const getWordDefinition = async (word: string, context: string): Promise<string> => {
+const generateText = async (model: string, contents: string, responseSchema?: object): Promise<string | undefined> => {
   try {
-    const ai = getGenAI();
-    if (!ai) return "API Key missing";
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `Define the word "${word}" briefly (under 30 words) as it is used in this context: "${context}". Return just the definition.`,
+    const response = await getGenAI().models.generateContent({
+      model,
+      contents,
+      config: responseSchema ? { responseMimeType: "application/json", responseSchema } : undefined
     });
-    return response.text || "Definition not found.";
+    return response.text;
   } catch (error) {
-    console.error("Definition error", error);
-    return "Could not load definition.";
+    throw toProviderError(error);
   }
-};
\ No newline at end of file
+};
+
+export const createGeminiProvider = (settings: AISettings): AIProvider => ({
+  id: 'gemini',
+
+  generateMaterial: async (topic, options) => {
+    const text = await generateText(settings.geminiModel, buildMaterialPrompt(topic, options), MATERIAL_SCHEMA);
+    return parseMaterialDraft(requireText(text, 'gemini', 'article'), 'gemini');
+  },
+
+  generateQuiz: async (sentences, count) => {
+    const text = await generateText(settings.geminiModel, buildQuizPrompt(sentences, count), QUIZ_SCHEMA);
+    return parseQuizDrafts(requireText(text, 'gemini', 'quiz'), 'gemini');
+  },
+
+  defineWord: async (word, context) => {
+    const text = await generateText(settings.geminiModel, buildDefinitionPrompt(word, context));
+    return requireText(text, 'gemini', 'definition');
+  },
+});
@@ -0,0 +1,65 @@
+import { AIProvider, AIProviderError, AISettings, buildDefinitionPrompt, buildMaterialPrompt, buildQuizPrompt, parseMaterialDraft, parseQuizDrafts, requireText } from "./aiProvider";
+
+// Talks to any server that implements the OpenAI chat completions API
+// (Ollama, llama.cpp, LM Studio, vLLM, ...).
+
+const chat = async (settings: AISettings, prompt: string, json: boolean): Promise<string> => {
+  const baseUrl = settings.localBaseUrl.trim().replace(/\/+$/, '');
+  if (!baseUrl || !settings.localModel.trim()) {
+    throw new AIProviderError('not-configured', 'openai-compatible', "Set the local server URL and model in AI settings.");
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.localApiKey ? { Authorization: `Bearer ${settings.localApiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: settings.localModel.trim(),
+        messages: [
+          ...(json ? [{ role: 'system', content: "Answer with a single JSON object and nothing else." }] : []),
+          { role: 'user', content: prompt },
+        ],
+        temperature: 0.7,
+      }),
+    });
+  } catch (error) {
+    console.error("Local model request error:", error);
+    throw new AIProviderError('network', 'openai-compatible', `Could not reach ${baseUrl}. Is the server running and allowing this origin (CORS)?`);
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    console.error("Local model error response:", response.status, detail);
+    throw new AIProviderError('http', 'openai-compatible', `The local server answered ${response.status}${response.statusText ? ` ${response.statusText}` : ''}.`);
+  }
+
+  try {
+    const data = await response.json();
+    return data?.choices?.[0]?.message?.content ?? '';
+  } catch {
+    throw new AIProviderError('invalid-response', 'openai-compatible', "The local server did not return a chat completion.");
+  }
+};
+
+export const createOpenAICompatibleProvider = (settings: AISettings): AIProvider => ({
+  id: 'openai-compatible',
+
+  generateMaterial: async (topic, options) => {
+    const text = await chat(settings, buildMaterialPrompt(topic, options), true);
+    return parseMaterialDraft(requireText(text, 'openai-compatible', 'article'), 'openai-compatible');
+  },
+
+  generateQuiz: async (sentences, count) => {
+    const text = await chat(settings, buildQuizPrompt(sentences, count), true);
+    return parseQuizDrafts(requireText(text, 'openai-compatible', 'quiz'), 'openai-compatible');
+  },
+
+  defineWord: async (word, context) => {
+    const text = await chat(settings, buildDefinitionPrompt(word, context), false);
+    return requireText(text, 'openai-compatible', 'definition');
+  },
+});
@@ -0,0 +1,125 @@
+import { Material } from "../types";
+import { STORES, openDatabase, requestToPromise, transactionDone } from "./db";
+
+// Old versions kept custom materials as JSON in localStorage.
+// Their blob: audio URLs died with the tab, so only the text survives migration.
+const LEGACY_STORAGE_KEY = 'blurlisten_materials';
+
+interface StoredMaterial extends Material {
+  position: number; // Keeps the library order stable across reloads
+}
+
+// Object URLs handed out by the last load or import, so they can be released on the next load or on delete
+const liveObjectUrls = new Map<string, string>();
+
+const isBlobUrl = (url: string) => url.startsWith('blob:');
+
+const toStoredMaterial = (material: Material, position: number): StoredMaterial => ({
+  ...material,
+  // Blob URLs are only valid for this page; the bytes are rehydrated from the audio store instead
+  audioUrl: isBlobUrl(material.audioUrl) ? '' : material.audioUrl,
+  position,
+});
+
+const migrateLegacyStorage = async (db: IDBDatabase) => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return;
+
+  try {
+    const parsed: Material[] = JSON.parse(saved);
+    const tx = db.transaction(STORES.materials, 'readwrite');
+    const store = tx.objectStore(STORES.materials);
+    parsed.forEach((m, i) => store.put(toStoredMaterial(m, i)));
+    await transactionDone(tx);
+  } catch (e) {
+    console.error("Failed to migrate legacy materials", e);
+    return; // Keep the old key around so nothing is lost
+  }
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+/**
+ * Loads all custom materials, attaching a fresh object URL for every material
+ * that has its original audio file stored.
+ */
+export const loadMaterials = async (): Promise<Material[]> => {
+  const db = await openDatabase();
+  await migrateLegacyStorage(db);
+
+  const tx = db.transaction([STORES.materials, STORES.audio], 'readonly');
+  const [records, audioKeys, audioBlobs] = await Promise.all([
+    requestToPromise(tx.objectStore(STORES.materials).getAll() as IDBRequest<StoredMaterial[]>),
+    requestToPromise(tx.objectStore(STORES.audio).getAllKeys()),
+    requestToPromise(tx.objectStore(STORES.audio).getAll() as IDBRequest<Blob[]>),
+  ]);
+
+  const audioById = new Map<string, Blob>();
+  audioKeys.forEach((key, i) => audioById.set(String(key), audioBlobs[i]));
+
+  liveObjectUrls.forEach(url => URL.revokeObjectURL(url));
+  liveObjectUrls.clear();
+
+  return records
+    .sort((a, b) => a.position - b.position)
+    .map(({ position, ...material }) => {
+      const blob = audioById.get(material.id);
+      if (!blob) return material;
+      const audioUrl = URL.createObjectURL(blob);
+      liveObjectUrls.set(material.id, audioUrl);
+      return { ...material, audioUrl };
+    });
+};
+
+/**
+ * Replaces the stored material list. Audio is stored separately via `saveAudio`
+ * and is not touched here.
+ */
+export const saveMaterials = async (materials: Material[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.materials, 'readwrite');
+  const store = tx.objectStore(STORES.materials);
+  store.clear();
+  materials.forEach((m, i) => store.put(toStoredMaterial(m, i)));
+  await transactionDone(tx);
+};
+
+export const saveAudio = async (materialId: string, audio: Blob): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.audio, 'readwrite');
+  tx.objectStore(STORES.audio).put(audio, materialId);
+  await transactionDone(tx);
+};
+
+/** Takes ownership of an object URL created elsewhere (e.g. on import) so it's released like loaded ones. */
+export const trackAudioUrl = (materialId: string, url: string) => {
+  if (!isBlobUrl(url)) return;
+  const previous = liveObjectUrls.get(materialId);
+  if (previous && previous !== url) URL.revokeObjectURL(previous);
+  liveObjectUrls.set(materialId, url);
+};
+
+export const getAudio = async (materialId: string): Promise<Blob | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.audio, 'readonly');
+  const blob = await requestToPromise(tx.objectStore(STORES.audio).get(materialId));
+  return blob ?? null;
+};
+
+export const deleteMaterialData = async (materialId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.materials, STORES.audio, STORES.recordings], 'readwrite');
+  tx.objectStore(STORES.materials).delete(materialId);
+  tx.objectStore(STORES.audio).delete(materialId);
+  const takes = tx.objectStore(STORES.recordings).index('materialId');
+  takes.getAllKeys(materialId).onsuccess = (e) => {
+    const keys = (e.target as IDBRequest<IDBValidKey[]>).result;
+    keys.forEach(key => tx.objectStore(STORES.recordings).delete(key));
+  };
+  await transactionDone(tx);
+
+  const url = liveObjectUrls.get(materialId);
+  if (url) {
+    URL.revokeObjectURL(url);
+    liveObjectUrls.delete(materialId);
+  }
+};
@@ -0,0 +1,113 @@
+import { ACCENT_LABELS, AIProvider, MaterialDraft, QuizDraft, REGISTER_LABELS, cefrToDifficulty, getSpeakerCount } from "./aiProvider";
+import { isFunctionWord, normalizeWord } from "../utils/textUtils";
+
+// Offline stand-in for a real model: the same input always gives the same output,
+// so generation and lookups can be developed and demoed without a network or key.
+
+const SENTENCE_TEMPLATES = [
+  "Today we are going to talk about {topic}.",
+  "Many people have heard of {topic}, but few know much about it.",
+  "To understand {topic}, it helps to start with a simple question.",
+  "Why does {topic} matter in everyday life?",
+  "Experts often say that {topic} is easier to learn in small steps.",
+  "One useful habit is to notice {topic} whenever it comes up around you.",
+  "Over time, these small observations add up to real understanding.",
+  "Next time you hear about {topic}, listen closely and see what you recognise.",
+];
+
+const SPEAKER_NAMES = ['Anna', 'Ben', 'Chloe', 'David'];
+const CATEGORIES = ['Culture', 'Science', 'Lifestyle', 'History', 'Technology'];
+const SECONDS_PER_SENTENCE = 5;
+
+// Small string hash so the same topic always picks the same options
+const hashString = (value: string) => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+  return hash;
+};
+
+const toTitleCase = (value: string) => value.replace(/\b\w/g, c => c.toUpperCase());
+
+// The longest content word is the most useful one to listen for
+const pickKeyword = (sentence: string) =>
+  sentence.split(/\s+/)
+    .map(normalizeWord)
+    .filter(w => w.length >= 4 && !isFunctionWord(w))
+    .sort((a, b) => b.length - a.length || a.localeCompare(b))[0] ?? null;
+
+// Alternates true/false (every other one a false statement) with fill-the-gap multiple choice
+const buildMockQuiz = (sentences: string[], count: number): QuizDraft[] => {
+  const keywords = sentences.map(pickKeyword);
+  return Array.from({ length: Math.min(count, sentences.length) }, (_, i) => {
+    const index = Math.floor((i * sentences.length) / Math.min(count, sentences.length));
+    const sentence = sentences[index];
+    const keyword = keywords[index];
+    const others = Array.from(new Set(keywords.filter((k, j): k is string => !!k && j !== index && k !== keyword)));
+
+    const gapped = keyword ? sentence.replace(new RegExp(`\\b${keyword}\\b`, 'i'), '_____') : sentence;
+    if (i % 2 === 1 && keyword && others.length > 0 && gapped !== sentence) {
+      const options = [keyword, ...others.slice(0, 3)];
+      // Rotate so the answer isn't always first
+      const shift = i % options.length;
+      const rotated = [...options.slice(shift), ...options.slice(0, shift)];
+      return {
+        type: 'multiple-choice',
+        prompt: `Which word completes the sentence? "${gapped}"`,
+        options: rotated,
+        answerIndex: rotated.indexOf(keyword),
+        sentence: index + 1,
+        explanation: `The speaker says "${keyword}".`,
+      };
+    }
+
+    const altered = keyword && others.length > 0 ? sentence.replace(new RegExp(`\\b${keyword}\\b`, 'i'), others[0]) : sentence;
+    const makeFalse = i % 4 === 2 && altered !== sentence;
+    const statement = makeFalse ? altered : sentence;
+    return {
+      type: 'true-false',
+      prompt: `The speaker says: "${statement}"`,
+      options: ['True', 'False'],
+      answerIndex: makeFalse ? 1 : 0,
+      sentence: index + 1,
+      explanation: makeFalse ? `The speaker says "${keyword}", not "${others[0]}".` : undefined,
+    };
+  });
+};
+
+export const createMockProvider = (): AIProvider => ({
+  id: 'mock',
+
+  generateMaterial: async (topic, options) => {
+    const cleanTopic = topic.trim();
+    const hash = hashString(cleanTopic.toLowerCase());
+    const speakers = getSpeakerCount(options);
+
+    const segments = Array.from({ length: options.segmentCount }, (_, i) => {
+      let text = SENTENCE_TEMPLATES[i % SENTENCE_TEMPLATES.length].replace('{topic}', cleanTopic);
+      // Work one focus item into every other sentence so it shows up in the lesson
+      if (options.focus.length > 0 && i % 2 === 1) {
+        text = `${text} Let's practise "${options.focus[Math.floor(i / 2) % options.focus.length]}".`;
+      }
+      return {
+        text,
+        startTime: i * SECONDS_PER_SENTENCE,
+        endTime: (i + 1) * SECONDS_PER_SENTENCE,
+        speaker: speakers > 1 ? SPEAKER_NAMES[i % speakers] : undefined,
+      };
+    });
+
+    const draft: MaterialDraft = {
+      title: `All About ${toTitleCase(cleanTopic)}`,
+      description: `An offline ${options.level} ${ACCENT_LABELS[options.accent]} English ${REGISTER_LABELS[options.register].toLowerCase()} about ${cleanTopic}.`,
+      category: CATEGORIES[hash % CATEGORIES.length],
+      difficulty: cefrToDifficulty(options.level),
+      segments,
+    };
+    return draft;
+  },
+
+  generateQuiz: async (sentences, count) => buildMockQuiz(sentences, count),
+
+  defineWord: async (word, context) =>
+    `"${word}" (offline mock definition): a word used here in "${context.length > 60 ? `${context.slice(0, 57)}...` : context}".`,
+});
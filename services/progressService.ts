@@ -0,0 +1,33 @@
+import { MaterialProgress } from "../types";
+
+const STORAGE_KEY = 'blurlisten_progress';
+
+export const loadAllProgress = (): Record<string, MaterialProgress> => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.error("Failed to load progress", e);
+    return {};
+  }
+};
+
+const saveAllProgress = (progress: Record<string, MaterialProgress>) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+  } catch (e) {
+    console.error("Failed to save progress", e);
+  }
+};
+
+export const getProgress = (materialId: string): MaterialProgress | null => loadAllProgress()[materialId] ?? null;
+
+export const saveProgress = (progress: MaterialProgress) => {
+  saveAllProgress({ ...loadAllProgress(), [progress.materialId]: progress });
+};
+
+export const removeProgress = (materialId: string) => {
+  const all = loadAllProgress();
+  delete all[materialId];
+  saveAllProgress(all);
+};
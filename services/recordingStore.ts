@@ -0,0 +1,50 @@
+import { RecordingTake } from "../types";
+import { STORES, openDatabase, requestToPromise, transactionDone } from "./db";
+
+/** All takes for a material, grouped by segment id and ordered oldest first. */
+export const loadRecordings = async (materialId: string): Promise<Record<string, RecordingTake[]>> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.recordings, 'readonly');
+  const takes = await requestToPromise(
+    tx.objectStore(STORES.recordings).index('materialId').getAll(materialId) as IDBRequest<RecordingTake[]>
+  );
+
+  const bySegment: Record<string, RecordingTake[]> = {};
+  takes
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .forEach(take => {
+      (bySegment[take.segmentId] ??= []).push(take);
+    });
+  return bySegment;
+};
+
+export const saveRecording = async (take: RecordingTake): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.recordings, 'readwrite');
+  tx.objectStore(STORES.recordings).put(take);
+  await transactionDone(tx);
+};
+
+export const deleteRecording = async (takeId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.recordings, 'readwrite');
+  tx.objectStore(STORES.recordings).delete(takeId);
+  await transactionDone(tx);
+};
+
+/** Marks one take as the segment's pick and clears the flag on its siblings. */
+export const chooseRecording = async (takes: RecordingTake[], takeId: string): Promise<RecordingTake[]> => {
+  const updated = takes.map(take => ({ ...take, chosen: take.id === takeId }));
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.recordings, 'readwrite');
+  const store = tx.objectStore(STORES.recordings);
+  updated.forEach(take => store.put(take));
+  await transactionDone(tx);
+  return updated;
+};
+
+/** The take used for export and playback: the learner's pick, else the newest one. */
+export const getChosenTake = (takes: RecordingTake[] | undefined): RecordingTake | undefined => {
+  if (!takes || takes.length === 0) return undefined;
+  return takes.find(take => take.chosen) ?? takes[takes.length - 1];
+};
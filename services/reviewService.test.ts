@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { ReviewCard } from '../types';
+import { formatInterval, getDueCards, scheduleReview } from './reviewService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const newCard = (patch: Partial<ReviewCard> = {}): ReviewCard => ({
+  id: 'm:s', materialId: 'm', segmentId: 's', source: 'manual',
+  easeFactor: 2.5, interval: 0, repetitions: 0, lapses: 0,
+  due: 0, flaggedAt: 0,
+  ...patch,
+});
+
+describe('scheduleReview', () => {
+  it('uses 1 and 6 day steps for the first two successful reviews', () => {
+    const first = scheduleReview(newCard(), 'good', 1000);
+    expect(first).toMatchObject({ repetitions: 1, interval: 1, due: 1000 + DAY_MS, easeFactor: 2.5 });
+    const second = scheduleReview(first, 'good', 0);
+    expect(second).toMatchObject({ repetitions: 2, interval: 6 });
+  });
+
+  it('grows later intervals by the ease factor', () => {
+    const card = newCard({ repetitions: 2, interval: 6 });
+    expect(scheduleReview(card, 'good', 0).interval).toBe(15);
+    expect(scheduleReview(card, 'easy', 0)).toMatchObject({ interval: 16, easeFactor: 2.6 });
+  });
+
+  it('lowers the ease on hard answers', () => {
+    expect(scheduleReview(newCard(), 'hard', 0).easeFactor).toBeCloseTo(2.36);
+  });
+
+  it('restarts a failed card and brings it back within the sitting', () => {
+    const failed = scheduleReview(newCard({ repetitions: 4, interval: 30, lapses: 1 }), 'again', 0);
+    expect(failed).toMatchObject({ repetitions: 0, interval: 0, lapses: 2, due: 10 * 60 * 1000 });
+    expect(failed.easeFactor).toBeCloseTo(1.96);
+  });
+
+  it('never drops the ease below 1.3', () => {
+    expect(scheduleReview(newCard({ easeFactor: 1.4 }), 'again', 0).easeFactor).toBe(1.3);
+  });
+});
+
+describe('getDueCards', () => {
+  it('returns due cards, most overdue first', () => {
+    const cards = [newCard({ id: 'a', due: 50 }), newCard({ id: 'b', due: 200 }), newCard({ id: 'c', due: 10 })];
+    expect(getDueCards(cards, 100).map(c => c.id)).toEqual(['c', 'a']);
+  });
+});
+
+describe('formatInterval', () => {
+  it('labels the next interval for each grade', () => {
+    expect(formatInterval(newCard(), 'again')).toBe('10m');
+    expect(formatInterval(newCard(), 'good')).toBe('1d');
+    expect(formatInterval(newCard({ repetitions: 3, interval: 40 }), 'good')).toBe('3mo');
+  });
+});
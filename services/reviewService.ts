@@ -0,0 +1,87 @@
+import { ReviewCard } from "../types";
+
+const STORAGE_KEY = 'blurlisten_reviews';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000; // "Again" brings the sentence back later in the same sitting
+const MIN_EASE = 1.3;
+
+// SM-2 quality scores behind the four review buttons
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+export const getCardId = (materialId: string, segmentId: string) => `${materialId}:${segmentId}`;
+
+export const loadReviewCards = (): ReviewCard[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to load review cards", e);
+    return [];
+  }
+};
+
+const saveReviewCards = (cards: ReviewCard[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(cards));
+  } catch (e) {
+    console.error("Failed to save review cards", e);
+  }
+};
+
+/** Adds the sentence to the review deck (no-op if it's already there). New cards are due immediately. */
+export const flagSegment = (materialId: string, segmentId: string, source: ReviewCard['source'] = 'manual'): ReviewCard[] => {
+  const cards = loadReviewCards();
+  const id = getCardId(materialId, segmentId);
+  if (cards.some(c => c.id === id)) return cards;
+
+  const now = Date.now();
+  const next = [...cards, {
+    id, materialId, segmentId, source,
+    easeFactor: 2.5, interval: 0, repetitions: 0, lapses: 0,
+    due: now, flaggedAt: now,
+  }];
+  saveReviewCards(next);
+  return next;
+};
+
+export const unflagSegment = (materialId: string, segmentId: string): ReviewCard[] => {
+  const id = getCardId(materialId, segmentId);
+  const next = loadReviewCards().filter(c => c.id !== id);
+  saveReviewCards(next);
+  return next;
+};
+
+export const removeCardsForMaterial = (materialId: string) => {
+  saveReviewCards(loadReviewCards().filter(c => c.materialId !== materialId));
+};
+
+/** Classic SM-2: failed reviews restart the card, successful ones grow the interval by the ease factor. */
+export const scheduleReview = (card: ReviewCard, grade: ReviewGrade, now = Date.now()): ReviewCard => {
+  const quality = GRADE_QUALITY[grade];
+  const easeFactor = Math.max(MIN_EASE, card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  if (quality < 3) {
+    return { ...card, easeFactor, repetitions: 0, interval: 0, lapses: card.lapses + 1, due: now + RELEARN_DELAY_MS };
+  }
+
+  const repetitions = card.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * easeFactor);
+  return { ...card, easeFactor, repetitions, interval, due: now + interval * DAY_MS };
+};
+
+export const gradeCard = (card: ReviewCard, grade: ReviewGrade): ReviewCard => {
+  const updated = scheduleReview(card, grade);
+  saveReviewCards(loadReviewCards().map(c => c.id === card.id ? updated : c));
+  return updated;
+};
+
+export const getDueCards = (cards: ReviewCard[], now = Date.now()): ReviewCard[] => {
+  return cards.filter(c => c.due <= now).sort((a, b) => a.due - b.due);
+};
+
+export const formatInterval = (card: ReviewCard, grade: ReviewGrade): string => {
+  const next = scheduleReview(card, grade, 0);
+  if (next.interval === 0) return '10m';
+  return next.interval >= 30 ? `${Math.round(next.interval / 30)}mo` : `${next.interval}d`;
+};
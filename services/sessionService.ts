@@ -0,0 +1,49 @@
+import { PracticeSession } from "../types";
+
+const STORAGE_KEY = 'blurlisten_sessions';
+const MAX_SESSIONS = 2000; // Oldest sessions are dropped beyond this to keep localStorage small
+
+export const loadSessions = (): PracticeSession[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to load sessions", e);
+    return [];
+  }
+};
+
+const saveSessions = (sessions: PracticeSession[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions.slice(-MAX_SESSIONS)));
+  } catch (e) {
+    console.error("Failed to save sessions", e);
+  }
+};
+
+export const createSession = (materialId: string): PracticeSession => {
+  const now = Date.now();
+  return {
+    id: `${now}-${Math.random().toString(36).slice(2, 7)}`,
+    materialId,
+    startedAt: now,
+    lastActiveAt: now,
+    activeSeconds: 0,
+    loops: {},
+    viewModeSeconds: {},
+    recordings: 0,
+  };
+};
+
+/** Inserts or replaces the session; called periodically while the reader is open. */
+export const saveSession = (session: PracticeSession) => {
+  const sessions = loadSessions();
+  const index = sessions.findIndex(s => s.id === session.id);
+  if (index === -1) sessions.push(session);
+  else sessions[index] = session;
+  saveSessions(sessions);
+};
+
+export const removeSessionsForMaterial = (materialId: string) => {
+  saveSessions(loadSessions().filter(s => s.materialId !== materialId));
+};
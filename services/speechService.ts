@@ -0,0 +1,102 @@
+// Browser text-to-speech (speechSynthesis) for materials that have no audio file.
+// Segments are spoken one utterance at a time so sentence loops and article
+// playback can reuse the same controls as real audio.
+
+const VOICE_STORAGE_KEY = 'blurlisten_tts_voice';
+
+export interface SpeakOptions {
+  voiceURI?: string | null;
+  rate?: number;
+  onBoundary?: (charIndex: number) => void;
+  onEnd: () => void;
+}
+
+export const isSpeechSupported = (): boolean => {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window && 'SpeechSynthesisUtterance' in window;
+};
+
+// Voices are populated asynchronously in Chrome; wait for them (but not forever)
+export const loadVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  if (!isSpeechSupported()) return Promise.resolve([]);
+  const synth = window.speechSynthesis;
+  const existing = synth.getVoices();
+  if (existing.length > 0) return Promise.resolve(existing);
+
+  return new Promise(resolve => {
+    const timeout = window.setTimeout(() => resolve(synth.getVoices()), 2000);
+    synth.addEventListener('voiceschanged', () => {
+      window.clearTimeout(timeout);
+      resolve(synth.getVoices());
+    }, { once: true });
+  });
+};
+
+// English voices first, grouped by accent (en-GB, en-US, ...)
+export const sortVoicesForPractice = (voices: SpeechSynthesisVoice[]): SpeechSynthesisVoice[] => {
+  const english = voices.filter(v => v.lang.toLowerCase().startsWith('en'));
+  const pool = english.length > 0 ? english : voices;
+  return [...pool].sort((a, b) => a.lang.localeCompare(b.lang) || a.name.localeCompare(b.name));
+};
+
+const matchesLang = (voice: SpeechSynthesisVoice, lang: string) =>
+  voice.lang.replace('_', '-').toLowerCase() === lang.toLowerCase();
+
+/**
+ * A voice for a material recorded in `lang` (e.g. "en-GB"): the preferred voice
+ * when it already fits, otherwise the first voice for that language. Undefined
+ * when there's no language or no voice for it.
+ */
+export const pickVoiceForLang = (voices: SpeechSynthesisVoice[], lang: string | undefined, preferredURI: string | null) => {
+  if (!lang) return undefined;
+  const preferred = voices.find(v => v.voiceURI === preferredURI);
+  if (preferred && matchesLang(preferred, lang)) return preferred;
+  return voices.find(v => matchesLang(v, lang));
+};
+
+export const getPreferredVoiceURI = (): string | null => localStorage.getItem(VOICE_STORAGE_KEY);
+
+export const setPreferredVoiceURI = (voiceURI: string | null) => {
+  if (voiceURI) localStorage.setItem(VOICE_STORAGE_KEY, voiceURI);
+  else localStorage.removeItem(VOICE_STORAGE_KEY);
+};
+
+/**
+ * Speaks `text` and returns a cancel function. Cancelling never fires `onEnd`
+ * (Chrome reports cancelled utterances as ended/errored, which would otherwise
+ * advance playback after the user pressed pause).
+ */
+export const speak = (text: string, options: SpeakOptions): (() => void) => {
+  const synth = window.speechSynthesis;
+  const utterance = new SpeechSynthesisUtterance(text);
+  let cancelled = false;
+
+  const voice = options.voiceURI ? synth.getVoices().find(v => v.voiceURI === options.voiceURI) : undefined;
+  if (voice) {
+    utterance.voice = voice;
+    utterance.lang = voice.lang;
+  } else {
+    utterance.lang = 'en-US';
+  }
+  utterance.rate = options.rate ?? 1;
+
+  utterance.onboundary = (e) => {
+    if (!cancelled) options.onBoundary?.(e.charIndex);
+  };
+  utterance.onend = () => {
+    if (!cancelled) options.onEnd();
+  };
+  utterance.onerror = (e) => {
+    if (cancelled || e.error === 'interrupted' || e.error === 'canceled') return;
+    console.error("Speech synthesis error", e.error);
+    options.onEnd();
+  };
+
+  // A previous utterance may still be queued
+  synth.cancel();
+  synth.speak(utterance);
+
+  return () => {
+    cancelled = true;
+    synth.cancel();
+  };
+};
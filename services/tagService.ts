@@ -0,0 +1,36 @@
+const STORAGE_KEY = 'blurlisten_tags';
+
+// Tags live outside the material so the built-in lessons can be tagged too
+export const loadAllTags = (): Record<string, string[]> => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.error("Failed to load tags", e);
+    return {};
+  }
+};
+
+const saveAllTags = (tags: Record<string, string[]>) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(tags));
+  } catch (e) {
+    console.error("Failed to save tags", e);
+  }
+};
+
+/** Trims, lowercases and de-duplicates; an empty list removes the entry. */
+export const setTags = (materialId: string, tags: string[]): Record<string, string[]> => {
+  const all = loadAllTags();
+  const cleaned = Array.from(new Set(tags.map(t => t.trim().toLowerCase()).filter(Boolean)));
+  if (cleaned.length > 0) all[materialId] = cleaned;
+  else delete all[materialId];
+  saveAllTags(all);
+  return all;
+};
+
+export const removeTags = (materialId: string) => {
+  const all = loadAllTags();
+  delete all[materialId];
+  saveAllTags(all);
+};
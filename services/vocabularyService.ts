@@ -0,0 +1,77 @@
+import { Segment, VocabularyEntry } from "../types";
+import { getWordDefinition, loadAISettings } from "./aiService";
+import { normalizeWord } from "../utils/textUtils";
+
+const STORAGE_KEY = 'blurlisten_vocabulary';
+
+// Definitions depend on the sentence, so they are cached per word + segment for this session.
+// The provider is part of the key so switching providers doesn't serve the old one's answers.
+const definitionCache = new Map<string, Promise<string>>();
+
+const getLookupKey = (provider: string, materialId: string, segmentId: string, word: string) =>
+  `${provider}:${materialId}:${segmentId}:${normalizeWord(word)}`;
+
+export const lookupWord = (materialId: string, segment: Segment, word: string): Promise<string> => {
+  const key = getLookupKey(loadAISettings().provider, materialId, segment.id, word);
+  const cached = definitionCache.get(key);
+  if (cached) return cached;
+
+  const lookup = getWordDefinition(normalizeWord(word), segment.text);
+  definitionCache.set(key, lookup);
+  // Failures aren't worth remembering; the next click should try again
+  lookup.catch(() => definitionCache.delete(key));
+  return lookup;
+};
+
+export const loadVocabulary = (): VocabularyEntry[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to load vocabulary", e);
+    return [];
+  }
+};
+
+const saveVocabulary = (entries: VocabularyEntry[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (e) {
+    console.error("Failed to save vocabulary", e);
+  }
+};
+
+export const findVocabularyEntry = (entries: VocabularyEntry[], materialId: string, segmentId: string, word: string) => {
+  const normalized = normalizeWord(word);
+  return entries.find(e => e.materialId === materialId && e.segmentId === segmentId && normalizeWord(e.word) === normalized);
+};
+
+/** Saves the word with its sentence; a word already saved from the same sentence is not duplicated. */
+export const addVocabularyEntry = (materialId: string, segment: Segment, word: string, definition: string): VocabularyEntry[] => {
+  const entries = loadVocabulary();
+  if (findVocabularyEntry(entries, materialId, segment.id, word)) return entries;
+
+  const next = [...entries, {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    word: normalizeWord(word),
+    definition,
+    materialId,
+    segmentId: segment.id,
+    segmentText: segment.text,
+    startTime: segment.startTime,
+    endTime: segment.endTime,
+    createdAt: Date.now(),
+  }];
+  saveVocabulary(next);
+  return next;
+};
+
+export const removeVocabularyEntry = (id: string): VocabularyEntry[] => {
+  const next = loadVocabulary().filter(e => e.id !== id);
+  saveVocabulary(next);
+  return next;
+};
+
+export const removeVocabularyForMaterial = (materialId: string) => {
+  saveVocabulary(loadVocabulary().filter(e => e.materialId !== materialId));
+};
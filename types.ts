@@ -3,6 +3,8 @@ export interface Segment {
   text: string;
   startTime: number; // in seconds
   endTime: number; // in seconds
+  confidence?: number; // 0 to 1, set by automatic alignment. Absent once a human has checked the timing.
+  speaker?: string; // Set for dialogues; absent for single-voice materials
 }
 
 export interface Material {
@@ -15,6 +17,21 @@ export interface Material {
   imageUrl: string;
   audioUrl: string; // In a real app, this would be a real URL. We will mock or use TTS.
   segments: Segment[];
+  quiz?: QuizQuestion[]; // Comprehension questions, hand-authored or generated
+  lang?: string; // BCP-47 tag such as "en-GB"; picks the text-to-speech voice when set
+}
+
+export type QuizQuestionType = 'multiple-choice' | 'true-false';
+
+// A comprehension question whose answer can be heard in one sentence
+export interface QuizQuestion {
+  id: string;
+  type: QuizQuestionType;
+  prompt: string;
+  options: string[]; // True/false questions always use ['True', 'False']
+  answerIndex: number;
+  segmentId: string; // The sentence to re-listen to after a wrong answer
+  explanation?: string;
 }
 
 export interface UserState {
@@ -23,3 +40,64 @@ export interface UserState {
   playbackProgress: number; // 0 to 1
   currentTime: number; // seconds
 }
+
+// A sentence scheduled for spaced-repetition review (SM-2)
+export interface ReviewCard {
+  id: string; // `${materialId}:${segmentId}`
+  materialId: string;
+  segmentId: string;
+  source: 'manual' | 'auto';
+  easeFactor: number;
+  interval: number; // in days
+  repetitions: number; // consecutive successful reviews
+  lapses: number;
+  due: number; // epoch ms
+  flaggedAt: number; // epoch ms
+}
+
+// One shadowing attempt for a sentence; a segment can have several takes
+export interface RecordingTake {
+  id: string;
+  materialId: string;
+  segmentId: string;
+  blob: Blob;
+  createdAt: number; // epoch ms
+  chosen: boolean; // The learner's pick for export; otherwise the newest take is used
+}
+
+// A word saved from a lesson, with the sentence (and its audio range) it came from
+export interface VocabularyEntry {
+  id: string;
+  word: string;
+  definition: string;
+  materialId: string;
+  segmentId: string;
+  segmentText: string;
+  startTime: number;
+  endTime: number;
+  createdAt: number; // epoch ms
+}
+
+// One stint in the reader, kept for the stats dashboard
+export interface PracticeSession {
+  id: string;
+  materialId: string;
+  startedAt: number; // epoch ms
+  lastActiveAt: number; // epoch ms
+  activeSeconds: number; // Only counts time while the learner is actually practising
+  loops: Record<string, number>; // Completed sentence-mode passes per segment id
+  viewModeSeconds: Record<string, number>; // Active time per view mode (visible, blur, ...)
+  recordings: number;
+}
+
+// Where the learner left off in a material, restored when it is reopened
+export interface MaterialProgress {
+  materialId: string;
+  segmentId: string | null; // Active sentence, if any
+  time: number; // seconds
+  viewMode: string;
+  playbackMode: string;
+  loopSetting: number | null; // null = infinite loops (Infinity doesn't survive JSON)
+  completedSegmentIds: string[];
+  updatedAt: number; // epoch ms
+}
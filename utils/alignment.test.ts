@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { alignSentencesToPauses, proportionalTimings } from './alignment';
+
+describe('proportionalTimings', () => {
+  it('spreads sentences by character count', () => {
+    const timed = proportionalTimings(['aaa', 'a'], 2, 6);
+    expect(timed.map(t => [t.startTime, t.endTime])).toEqual([[2, 5], [5, 6]]);
+  });
+});
+
+describe('alignSentencesToPauses', () => {
+  it('returns nothing for an empty transcript', () => {
+    expect(alignSentencesToPauses([], [{ start: 1, end: 2 }], 0, 10)).toEqual([]);
+  });
+
+  it('snaps a boundary to the pause near its proportional estimate', () => {
+    const timed = alignSentencesToPauses(['First one.', 'Second one'], [{ start: 4.6, end: 5.2 }], 0, 10);
+    // Cut a quarter second into the pause, not in its middle
+    expect(timed[0].endTime).toBeCloseTo(4.85);
+    expect(timed[1].startTime).toBeCloseTo(4.85);
+    expect(timed[0].confidence).toBeGreaterThan(0);
+  });
+
+  it('trims leading and trailing silence', () => {
+    const timed = alignSentencesToPauses(['Only sentence'], [{ start: 0, end: 0.8 }, { start: 9.5, end: 10 }], 0, 10);
+    expect(timed[0].startTime).toBeCloseTo(0.8);
+    expect(timed[0].endTime).toBeCloseTo(9.75);
+    expect(timed[0].confidence).toBe(1);
+  });
+
+  it('keeps the proportional estimate with zero confidence when no pause is close', () => {
+    const timed = alignSentencesToPauses(['aaaa', 'aaaa'], [{ start: 16, end: 16.4 }], 0, 20);
+    expect(timed[0].endTime).toBeCloseTo(10);
+    expect(timed[0].confidence).toBe(0);
+  });
+
+  it('picks the pause closest to the estimate when several are in range', () => {
+    const pauses = [{ start: 3.6, end: 4.2 }, { start: 4.8, end: 5.4 }];
+    const timed = alignSentencesToPauses(['aaaa', 'aaaa'], pauses, 0, 10);
+    expect(timed[0].endTime).toBeCloseTo(5.05);
+  });
+});
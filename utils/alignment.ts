@@ -0,0 +1,159 @@
+// Timestamp estimation for imported transcripts.
+// The proportional method spreads sentences by character count; the pause-based
+// method uses it as a prior and snaps each boundary to a detected pause nearby.
+
+export interface Pause {
+  start: number; // seconds
+  end: number; // seconds
+}
+
+export interface TimedSentence {
+  text: string;
+  startTime: number;
+  endTime: number;
+  confidence?: number; // 0..1, only set by pause-based alignment
+  speaker?: string; // From WebVTT voice tags or "Name:" prefixes
+}
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+const FRAME_SECONDS = 0.02;
+const HOP_SECONDS = 0.01;
+const MIN_PAUSE_SECONDS = 0.18;
+const MAX_CUT_INTO_PAUSE = 0.25; // Boundaries sit a little after the last word, not in the middle of long gaps
+
+export const proportionalTimings = (sentences: string[], startTime: number, endTime: number): TimedSentence[] => {
+  const totalChars = sentences.reduce((acc, s) => acc + s.length, 0);
+  const span = Math.max(0, endTime - startTime);
+  let cursor = startTime;
+
+  return sentences.map(text => {
+    const length = totalChars > 0 ? (text.length / totalChars) * span : 0;
+    const timed = { text, startTime: cursor, endTime: cursor + length };
+    cursor += length;
+    return timed;
+  });
+};
+
+/**
+ * Energy-based voice activity detection. The silence threshold adapts to the
+ * recording: it sits a quarter of the way between the noise floor and the
+ * typical speech level, so it works for both quiet and loud files.
+ */
+export function detectPauses(buffer: AudioBuffer, minPause = MIN_PAUSE_SECONDS): Pause[] {
+  const rate = buffer.sampleRate;
+  const frameSize = Math.round(FRAME_SECONDS * rate);
+  const hopSize = Math.round(HOP_SECONDS * rate);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+
+  const levels: number[] = [];
+  for (let start = 0; start + frameSize <= buffer.length; start += hopSize) {
+    let energy = 0;
+    for (let i = start; i < start + frameSize; i++) {
+      let sample = 0;
+      for (const data of channels) sample += data[i];
+      sample /= channels.length;
+      energy += sample * sample;
+    }
+    const rms = Math.sqrt(energy / frameSize);
+    levels.push(20 * Math.log10(rms + 1e-10));
+  }
+  if (levels.length === 0) return [];
+
+  const sorted = [...levels].sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)];
+  const speechLevel = sorted[Math.floor(sorted.length * 0.9)];
+  if (speechLevel - noiseFloor < 6) return []; // No usable contrast (e.g. music bed or pure noise)
+  const threshold = noiseFloor + (speechLevel - noiseFloor) * 0.25;
+
+  const pauses: Pause[] = [];
+  let runStart = -1;
+  levels.forEach((level, i) => {
+    const silent = level < threshold;
+    if (silent && runStart === -1) runStart = i;
+    if ((!silent || i === levels.length - 1) && runStart !== -1) {
+      const runEnd = silent ? i + 1 : i;
+      const start = runStart * HOP_SECONDS;
+      const end = Math.min(buffer.duration, runEnd * HOP_SECONDS + FRAME_SECONDS);
+      if (end - start >= minPause) pauses.push({ start, end });
+      runStart = -1;
+    }
+  });
+  return pauses;
+}
+
+/**
+ * Places sentence boundaries on detected pauses. Each boundary is predicted
+ * proportionally from the previous (already snapped) boundary, then moved to
+ * the best pause within a window around that prediction. Boundaries with no
+ * pause nearby keep the proportional estimate and get zero confidence.
+ */
+export const alignSentencesToPauses = (
+  sentences: string[],
+  pauses: Pause[],
+  offset: number,
+  duration: number
+): TimedSentence[] => {
+  if (sentences.length === 0) return [];
+
+  // Trim leading/trailing silence so the first and last sentences hug the speech
+  const leading = pauses.find(p => p.start <= offset + 0.05 && p.end > offset);
+  const trailing = pauses.find(p => p.end >= duration - 0.05 && p.start > offset);
+  const speechStart = leading ? leading.end : offset;
+  const speechEnd = trailing ? trailing.start + Math.min(MAX_CUT_INTO_PAUSE, (trailing.end - trailing.start) / 2) : duration;
+
+  const candidates = pauses
+    .filter(p => p !== leading && p !== trailing && p.start > speechStart && p.end < speechEnd)
+    .map(p => ({
+      cut: p.start + Math.min(MAX_CUT_INTO_PAUSE, (p.end - p.start) / 2),
+      strength: Math.min(1, (p.end - p.start) / 0.6),
+    }));
+
+  const boundaries: { time: number; confidence: number }[] = [
+    { time: speechStart, confidence: leading || offset > 0 ? 1 : 0.5 },
+  ];
+
+  let previous = speechStart;
+  for (let i = 0; i < sentences.length - 1; i++) {
+    const remainingChars = sentences.slice(i).reduce((acc, s) => acc + s.length, 0);
+    const expectedLength = remainingChars > 0 ? (sentences[i].length / remainingChars) * (speechEnd - previous) : 0;
+    const expected = previous + expectedLength;
+    const window = Math.max(1, expectedLength * 0.5);
+
+    let best: { time: number; confidence: number; score: number } | null = null;
+    for (const c of candidates) {
+      if (c.cut <= previous + 0.2 || c.cut >= speechEnd - 0.2) continue;
+      const distance = Math.abs(c.cut - expected);
+      if (distance > window) continue;
+      const closeness = 1 - distance / window;
+      const score = closeness * 0.6 + c.strength * 0.4;
+      if (!best || score > best.score) best = { time: c.cut, confidence: score, score };
+    }
+
+    const boundary = best ? { time: best.time, confidence: best.confidence } : { time: expected, confidence: 0 };
+    boundaries.push(boundary);
+    previous = boundary.time;
+  }
+
+  boundaries.push({ time: speechEnd, confidence: trailing ? 1 : 0.5 });
+
+  return sentences.map((text, i) => ({
+    text,
+    startTime: boundaries[i].time,
+    endTime: boundaries[i + 1].time,
+    confidence: Math.min(boundaries[i].confidence, boundaries[i + 1].confidence),
+  }));
+};
+
+export const getConfidenceLevel = (confidence: number): ConfidenceLevel => {
+  if (confidence >= 0.7) return 'high';
+  if (confidence >= 0.4) return 'medium';
+  return 'low';
+};
+
+// Dot colours for the confidence markers in the import preview and alignment editor
+export const CONFIDENCE_STYLES: Record<ConfidenceLevel, string> = {
+  high: 'bg-emerald-500',
+  medium: 'bg-amber-400',
+  low: 'bg-red-500',
+};
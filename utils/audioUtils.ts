@@ -1,41 +1,110 @@
+export interface AudioClip {
+  buffer: AudioBuffer;
+  startTime?: number; // Slice of the buffer to use, in seconds (defaults to all of it)
+  endTime?: number;
+  silenceAfter?: number; // Seconds of silence inserted after this clip
+}
 
-export async function mergeAudioBlobs(blobs: Blob[]): Promise<Blob> {
-  if (blobs.length === 0) {
-    throw new Error("No recordings to export");
+// Averages all channels, so a stereo take isn't exported as just its left side
+export function downmixToMono(buffer: AudioBuffer, startTime = 0, endTime = buffer.duration): Float32Array {
+  const startSample = Math.max(0, Math.floor(startTime * buffer.sampleRate));
+  const endSample = Math.min(buffer.length, Math.ceil(endTime * buffer.sampleRate));
+  const mono = new Float32Array(Math.max(0, endSample - startSample));
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < mono.length; i++) mono[i] += data[startSample + i] / buffer.numberOfChannels;
   }
+  return mono;
+}
 
-  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-  
-  // 1. Decode all blobs to AudioBuffers
-  const audioBuffers: AudioBuffer[] = [];
-  for (const blob of blobs) {
-    const arrayBuffer = await blob.arrayBuffer();
-    const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-    audioBuffers.push(audioBuffer);
+// Linear-interpolation resampler; good enough for speech review files
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return samples;
+  const ratio = fromRate / toRate;
+  const output = new Float32Array(Math.round(samples.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const position = i * ratio;
+    const index = Math.min(Math.floor(position), samples.length - 1);
+    const next = Math.min(index + 1, samples.length - 1);
+    const fraction = position - index;
+    output[i] = samples[index] * (1 - fraction) + samples[next] * fraction;
+  }
+  return output;
+}
+
+/**
+ * Concatenates clips into one mono WAV at the highest sample rate among them.
+ * Mono is sufficient for voice and keeps review files small.
+ */
+export function mergeAudioClips(clips: AudioClip[]): Blob {
+  if (clips.length === 0) {
+    throw new Error("No recordings to export");
   }
 
-  // 2. Calculate total length
-  const totalLength = audioBuffers.reduce((acc, buf) => acc + buf.length, 0);
-  const numberOfChannels = 1; // Mono is sufficient for voice and easier to handle
-  const sampleRate = audioBuffers[0].sampleRate;
+  const sampleRate = Math.max(...clips.map(clip => clip.buffer.sampleRate));
+  const parts: Float32Array[] = [];
+  clips.forEach((clip, i) => {
+    const mono = downmixToMono(clip.buffer, clip.startTime, clip.endTime);
+    parts.push(resample(mono, clip.buffer.sampleRate, sampleRate));
+    // No trailing silence after the final clip
+    if (clip.silenceAfter && i < clips.length - 1) parts.push(new Float32Array(Math.round(clip.silenceAfter * sampleRate)));
+  });
 
-  // 3. Create output buffer
-  const resultBuffer = audioContext.createBuffer(numberOfChannels, totalLength, sampleRate);
+  const totalLength = parts.reduce((acc, part) => acc + part.length, 0);
+  const resultBuffer = new AudioBuffer({ numberOfChannels: 1, length: Math.max(1, totalLength), sampleRate });
   const channelData = resultBuffer.getChannelData(0);
-
-  // 4. Merge data
   let offset = 0;
-  for (const buf of audioBuffers) {
-    // Mix down to mono if source is stereo, otherwise just copy
-    const inputData = buf.getChannelData(0); 
-    channelData.set(inputData, offset);
-    offset += buf.length;
+  for (const part of parts) {
+    channelData.set(part, offset);
+    offset += part.length;
   }
 
-  // 5. Convert to WAV
   return bufferToWav(resultBuffer);
 }
 
+export async function decodeAudio(source: Blob | string): Promise<AudioBuffer> {
+  const blob = typeof source === 'string' ? await (await fetch(source)).blob() : source;
+  const arrayBuffer = await blob.arrayBuffer();
+  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    return await audioContext.decodeAudioData(arrayBuffer);
+  } finally {
+    audioContext.close();
+  }
+}
+
+// Reduces a buffer to `buckets` peak amplitudes (0..1) for drawing waveforms.
+// Channels are averaged so stereo files don't draw twice as loud as mono ones.
+export function computeWaveformPeaks(buffer: AudioBuffer, buckets: number, startTime = 0, endTime = buffer.duration): Float32Array {
+  const peaks = new Float32Array(buckets);
+  const startSample = Math.max(0, Math.floor(startTime * buffer.sampleRate));
+  const endSample = Math.min(buffer.length, Math.ceil(endTime * buffer.sampleRate));
+  const samplesPerBucket = Math.max(1, (endSample - startSample) / buckets);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+
+  for (let b = 0; b < buckets; b++) {
+    const from = startSample + Math.floor(b * samplesPerBucket);
+    const to = Math.min(endSample, startSample + Math.floor((b + 1) * samplesPerBucket));
+    let max = 0;
+    for (let i = from; i < to; i++) {
+      let sum = 0;
+      for (const data of channels) sum += data[i];
+      const value = Math.abs(sum / channels.length);
+      if (value > max) max = value;
+    }
+    peaks[b] = max;
+  }
+  return peaks;
+}
+
+export function formatTimestamp(seconds: number): string {
+  // Round first so 59.999 becomes 1:00.00 rather than 0:60.00
+  const hundredths = Math.round(Math.max(0, seconds) * 100);
+  const minutes = Math.floor(hundredths / 6000);
+  const rest = (hundredths - minutes * 6000) / 100;
+  return `${minutes}:${rest.toFixed(2).padStart(5, '0')}`;
+}
+
 function bufferToWav(abuffer: AudioBuffer): Blob {
   const numOfChan = abuffer.numberOfChannels;
   const length = abuffer.length * numOfChan * 2 + 44;
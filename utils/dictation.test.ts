@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { diffWords, scoreDictation } from './dictation';
+
+describe('diffWords', () => {
+  it('ignores case and punctuation', () => {
+    expect(diffWords('Hello, World!', 'hello world').map(d => d.kind)).toEqual(['correct', 'correct']);
+  });
+
+  it('reports close spellings as misspelled', () => {
+    expect(diffWords('I receive mail', 'I recieve mail')).toEqual([
+      { kind: 'correct', expected: 'I', typed: 'I' },
+      { kind: 'misspelled', expected: 'receive', typed: 'recieve' },
+      { kind: 'correct', expected: 'mail', typed: 'mail' },
+    ]);
+  });
+
+  it('reports an unrelated word as missing plus extra', () => {
+    const kinds = diffWords('the cat sat', 'the dog sat').map(d => d.kind);
+    expect(kinds.filter(k => k === 'missing')).toHaveLength(1);
+    expect(kinds.filter(k => k === 'extra')).toHaveLength(1);
+    expect(kinds.filter(k => k === 'correct')).toHaveLength(2);
+  });
+
+  it('finds skipped and inserted words', () => {
+    expect(diffWords('one two three', 'one three').map(d => d.kind)).toEqual(['correct', 'missing', 'correct']);
+    expect(diffWords('one two', 'one and two').map(d => d.kind)).toEqual(['correct', 'extra', 'correct']);
+  });
+});
+
+describe('scoreDictation', () => {
+  it('gives full marks for an exact answer', () => {
+    expect(scoreDictation('s1', 'Good morning.', 'good morning').accuracy).toBe(1);
+  });
+
+  it('gives half credit for misspellings', () => {
+    expect(scoreDictation('s1', 'I receive mail', 'I recieve mail').accuracy).toBeCloseTo(2.5 / 3);
+  });
+
+  it('penalises extra words but never goes below zero', () => {
+    expect(scoreDictation('s1', 'one two', 'one two one two').accuracy).toBeCloseTo(0.75);
+    expect(scoreDictation('s1', 'yes', 'a b c d e f g h').accuracy).toBe(0);
+  });
+
+  it('scores an empty transcript as zero', () => {
+    expect(scoreDictation('s1', '...', 'anything').accuracy).toBe(0);
+  });
+});
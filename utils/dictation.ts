@@ -0,0 +1,106 @@
+// Word-level comparison for dictation answers.
+// Case and punctuation are ignored; a substituted word that is close in spelling
+// counts as "misspelled" rather than as one missing plus one extra word.
+
+export type WordDiffKind = 'correct' | 'misspelled' | 'missing' | 'extra';
+
+export interface WordDiff {
+  kind: WordDiffKind;
+  expected?: string; // As written in the transcript
+  typed?: string; // As typed by the learner
+}
+
+export interface DictationResult {
+  segmentId: string;
+  typed: string;
+  diff: WordDiff[];
+  accuracy: number; // 0..1
+}
+
+interface Token {
+  raw: string;
+  norm: string;
+}
+
+const tokenize = (text: string): Token[] => {
+  return text
+    .split(/\s+/)
+    .map(raw => ({ raw, norm: raw.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '') }))
+    .filter(t => t.norm.length > 0);
+};
+
+const editDistance = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+};
+
+// "recieve" vs "receive" is a spelling slip; "cat" vs "dog" is a different word
+const isMisspelling = (expected: string, typed: string): boolean => {
+  const distance = editDistance(expected, typed);
+  return distance <= Math.max(1, Math.floor(expected.length * 0.4));
+};
+
+export const diffWords = (expectedText: string, typedText: string): WordDiff[] => {
+  const expected = tokenize(expectedText);
+  const typed = tokenize(typedText);
+  const n = expected.length;
+  const m = typed.length;
+
+  // Standard alignment DP: insert/delete cost 1, a misspelling costs 1,
+  // an unrelated substitution costs 2 (so it is reported as missing + extra).
+  const cost: number[][] = Array.from({ length: n + 1 }, (_, i) =>
+    Array.from({ length: m + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const e = expected[i - 1].norm;
+      const t = typed[j - 1].norm;
+      const substitution = e === t ? 0 : isMisspelling(e, t) ? 1 : 2;
+      cost[i][j] = Math.min(cost[i - 1][j] + 1, cost[i][j - 1] + 1, cost[i - 1][j - 1] + substitution);
+    }
+  }
+
+  const diff: WordDiff[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const e = expected[i - 1];
+      const t = typed[j - 1];
+      const substitution = e.norm === t.norm ? 0 : isMisspelling(e.norm, t.norm) ? 1 : 2;
+      if (substitution < 2 && cost[i][j] === cost[i - 1][j - 1] + substitution) {
+        diff.push({ kind: substitution === 0 ? 'correct' : 'misspelled', expected: e.raw, typed: t.raw });
+        i--; j--;
+        continue;
+      }
+    }
+    if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      diff.push({ kind: 'missing', expected: expected[i - 1].raw });
+      i--;
+    } else {
+      diff.push({ kind: 'extra', typed: typed[j - 1].raw });
+      j--;
+    }
+  }
+  return diff.reverse();
+};
+
+export const scoreDictation = (segmentId: string, expectedText: string, typed: string): DictationResult => {
+  const diff = diffWords(expectedText, typed);
+  const expectedCount = diff.filter(d => d.kind !== 'extra').length;
+  const correct = diff.filter(d => d.kind === 'correct').length;
+  const misspelled = diff.filter(d => d.kind === 'misspelled').length;
+  const extra = diff.filter(d => d.kind === 'extra').length;
+  // Misspellings earn half credit; extra words are penalised so typing everything twice doesn't pay
+  const raw = expectedCount > 0 ? (correct + misspelled * 0.5 - extra * 0.25) / expectedCount : 0;
+  return { segmentId, typed, diff, accuracy: Math.max(0, Math.min(1, raw)) };
+};
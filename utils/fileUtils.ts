@@ -0,0 +1,42 @@
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Keeps titles readable in file names while dropping characters some OSes reject
+export const toFileName = (title: string, maxLength = 40): string => {
+  const cleaned = title.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '-').slice(0, maxLength);
+  return cleaned || 'material';
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Decodes a base64 `data:audio/...` URL without going through fetch, so
+ * untrusted input can never trigger a network request. Null for anything else.
+ */
+export const audioDataUrlToBlob = (url: string): Blob | null => {
+  const match = /^data:(audio\/[^;,]+(?:;[^;,]+)*?);base64,([A-Za-z0-9+/=\s]*)$/.exec(url);
+  if (!match) return null;
+  try {
+    const binary = atob(match[2].replace(/\s/g, ''));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type: match[1] });
+  } catch {
+    return null; // Malformed base64
+  }
+};
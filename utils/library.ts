@@ -0,0 +1,72 @@
+import { Material, MaterialProgress } from "../types";
+
+export type LibrarySort = 'default' | 'title' | 'difficulty' | 'recent';
+
+export interface LibraryFilter {
+  query: string;
+  category: string; // 'all' or a category name
+  difficulty: string; // 'all' or a Material difficulty
+  tag: string | null;
+}
+
+export const EMPTY_LIBRARY_FILTER: LibraryFilter = { query: '', category: 'all', difficulty: 'all', tag: null };
+
+export const SORT_LABELS: Record<LibrarySort, string> = {
+  default: 'Newest first',
+  title: 'Title A–Z',
+  difficulty: 'Easiest first',
+  recent: 'Recently practised',
+};
+
+const DIFFICULTY_ORDER: Record<Material['difficulty'], number> = { Easy: 0, Medium: 1, Hard: 2 };
+
+export const isFilterActive = (filter: LibraryFilter) =>
+  !!filter.query.trim() || filter.category !== 'all' || filter.difficulty !== 'all' || filter.tag !== null;
+
+/**
+ * Every word of the query must appear somewhere in the title, description,
+ * category, tags or sentence text (case-insensitive).
+ */
+export const matchesQuery = (material: Material, query: string, tags: string[] = []) => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const haystack = [
+    material.title,
+    material.description,
+    material.category,
+    ...tags,
+    ...material.segments.map(s => s.text),
+  ].join('\n').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+export const filterMaterials = (materials: Material[], filter: LibraryFilter, tagsById: Record<string, string[]>) =>
+  materials.filter(m => {
+    const tags = tagsById[m.id] ?? [];
+    if (filter.category !== 'all' && m.category !== filter.category) return false;
+    if (filter.difficulty !== 'all' && m.difficulty !== filter.difficulty) return false;
+    if (filter.tag && !tags.includes(filter.tag)) return false;
+    return matchesQuery(m, filter.query, tags);
+  });
+
+/** 'default' keeps the library order, which already lists new materials first. */
+export const sortMaterials = (materials: Material[], sort: LibrarySort, progress: Record<string, MaterialProgress>) => {
+  const sorted = [...materials];
+  switch (sort) {
+    case 'title':
+      return sorted.sort((a, b) => a.title.localeCompare(b.title));
+    case 'difficulty':
+      return sorted.sort((a, b) => DIFFICULTY_ORDER[a.difficulty] - DIFFICULTY_ORDER[b.difficulty]);
+    case 'recent':
+      // Never-opened materials keep their library order at the end
+      return sorted.sort((a, b) => (progress[b.id]?.updatedAt ?? 0) - (progress[a.id]?.updatedAt ?? 0));
+    default:
+      return sorted;
+  }
+};
+
+export const collectCategories = (materials: Material[]) =>
+  Array.from(new Set(materials.map(m => m.category))).sort((a, b) => a.localeCompare(b));
+
+export const collectTags = (tagsById: Record<string, string[]>, materials: Material[]) =>
+  Array.from(new Set(materials.flatMap(m => tagsById[m.id] ?? []))).sort((a, b) => a.localeCompare(b));
@@ -0,0 +1,62 @@
+import { Material } from '../types';
+import { audioDataUrlToBlob, blobToDataUrl } from './fileUtils';
+import { validateMaterial } from './materialValidation';
+
+// A bundle is one self-contained JSON file: the material with all its timings,
+// plus the original audio as a data URL so it can be shared as a single download.
+const BUNDLE_FORMAT = 'blurlisten-bundle';
+const BUNDLE_VERSION = 1;
+
+interface MaterialBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  material: Material;
+  audio: string | null; // data: URL
+}
+
+export const createMaterialBundle = async (material: Material, audio: Blob | null): Promise<Blob> => {
+  const bundle: MaterialBundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    // Local blob: URLs mean nothing on another device; remote URLs are kept as a fallback
+    material: { ...material, audioUrl: material.audioUrl.startsWith('blob:') ? '' : material.audioUrl },
+    audio: audio ? await blobToDataUrl(audio) : null,
+  };
+  return new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+};
+
+export interface BundleContents {
+  material: Material;
+  audio: Blob | null;
+  repairs: string[]; // What validation had to fix or drop, for the import preview
+}
+
+export const readMaterialBundle = async (content: string): Promise<BundleContents> => {
+  let bundle: MaterialBundle;
+  try {
+    bundle = JSON.parse(content);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+
+  if (bundle?.format !== BUNDLE_FORMAT || !bundle.material) {
+    throw new Error("This file is not a BlurListen material bundle.");
+  }
+  if (bundle.version > BUNDLE_VERSION) {
+    throw new Error("This bundle was made with a newer version of the app.");
+  }
+
+  const { material, repairs, rejected } = validateMaterial(bundle.material);
+  if (!material) {
+    throw new Error(`This bundle's material is unusable: ${rejected.join(' ')}`);
+  }
+
+  let audio: Blob | null = null;
+  if (bundle.audio) {
+    audio = typeof bundle.audio === 'string' ? audioDataUrlToBlob(bundle.audio) : null;
+    if (!audio) throw new Error("This bundle's audio is not an embedded audio file.");
+  }
+  return { material, audio, repairs: [...repairs, ...rejected] };
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { Segment } from '../types';
+import { validateMaterial, validateQuiz } from './materialValidation';
+
+const material = (segments: unknown[], extra: Record<string, unknown> = {}) => ({
+  id: 'm1', title: 'Lesson', difficulty: 'Easy', duration: '0:30', segments, ...extra,
+});
+
+describe('validateMaterial', () => {
+  it('passes a clean material through unchanged', () => {
+    const result = validateMaterial(material([
+      { id: 'a', text: 'One.', startTime: 0, endTime: 2 },
+      { id: 'b', text: 'Two.', startTime: 2, endTime: 4, speaker: 'Ana' },
+    ]));
+    expect(result.repairs).toEqual([]);
+    expect(result.rejected).toEqual([]);
+    expect(result.material?.segments).toEqual([
+      { id: 'a', text: 'One.', startTime: 0, endTime: 2 },
+      { id: 'b', text: 'Two.', startTime: 2, endTime: 4, speaker: 'Ana' },
+    ]);
+  });
+
+  it('rejects input without usable sentences', () => {
+    expect(validateMaterial('nope').material).toBeNull();
+    expect(validateMaterial({ title: 'No list' }).material).toBeNull();
+    const empty = validateMaterial(material([{ text: '  ' }, 42]));
+    expect(empty.material).toBeNull();
+    expect(empty.rejected).toHaveLength(3);
+  });
+
+  it('fills in missing fields', () => {
+    const result = validateMaterial({ difficulty: 'Impossible', segments: [{ text: 'Hi', startTime: 0, endTime: 1 }] });
+    expect(result.material).toMatchObject({ title: 'Untitled', difficulty: 'Medium', category: 'General', duration: '0:01' });
+    expect(result.material?.id).toMatch(/^custom-/);
+  });
+
+  it('sorts sentences and resolves overlaps', () => {
+    const result = validateMaterial(material([
+      { id: 'b', text: 'Second.', startTime: 3, endTime: 6 },
+      { id: 'a', text: 'First.', startTime: 0, endTime: 4 },
+    ]));
+    expect(result.material?.segments.map(s => [s.id, s.startTime, s.endTime])).toEqual([['a', 0, 3], ['b', 3, 6]]);
+    expect(result.repairs).toContain("Sentences were reordered by start time.");
+  });
+
+  it('estimates missing timings from the previous sentence', () => {
+    const result = validateMaterial(material([
+      { id: 'a', text: 'One two three four five six', startTime: 1, endTime: 3 },
+      { id: 'b', text: 'No timing here' },
+    ]));
+    const [, second] = result.material!.segments;
+    expect(second.startTime).toBe(3);
+    expect(second.endTime).toBe(5); // Short sentences get the two-second minimum
+  });
+
+  it('clamps timings to the audio length and drops sentences past it', () => {
+    const result = validateMaterial(material([
+      { id: 'a', text: 'Inside.', startTime: -1, endTime: 12 },
+      { id: 'b', text: 'Too late.', startTime: 20, endTime: 22 },
+    ]), { maxTime: 10 });
+    expect(result.material?.segments).toEqual([{ id: 'a', text: 'Inside.', startTime: 0, endTime: 10 }]);
+    expect(result.rejected).toEqual(["Sentence 2: starts after the audio ends."]);
+  });
+
+  it('replaces missing and duplicate ids', () => {
+    const result = validateMaterial(material([
+      { id: 'x', text: 'One.', startTime: 0, endTime: 1 },
+      { id: 'x', text: 'Two.', startTime: 1, endTime: 2 },
+      { text: 'Three.', startTime: 2, endTime: 3 },
+    ]));
+    expect(result.material?.segments.map(s => s.id)).toEqual(['x', 'm1-1', 'm1-2']);
+  });
+});
+
+describe('validateQuiz', () => {
+  const segments: Segment[] = [{ id: 's1', text: 'The shop opens at nine.', startTime: 0, endTime: 2 }];
+  const question = (patch: Record<string, unknown>) => ({
+    id: 'q', type: 'multiple-choice', prompt: 'When does it open?', options: ['Eight', 'Nine'], answerIndex: 1, segmentId: 's1', ...patch,
+  });
+
+  it('keeps valid questions', () => {
+    const { questions, repairs, rejected } = validateQuiz([question({ explanation: 'Said at the start.' })], segments, 'm1');
+    expect(questions).toEqual([{ ...question({}), explanation: 'Said at the start.' }]);
+    expect([...repairs, ...rejected]).toEqual([]);
+  });
+
+  it('drops unanswerable or unlinked questions', () => {
+    const { questions, rejected } = validateQuiz([
+      question({ prompt: '' }),
+      question({ segmentId: 'missing' }),
+      question({ options: ['Only one'] }),
+      question({ answerIndex: 2 }),
+      question({ type: 'true-false' }),
+      'not an object',
+    ], segments, 'm1');
+    expect(questions).toEqual([]);
+    expect(rejected).toHaveLength(6);
+  });
+
+  it('keeps the right answer when reordering true/false options', () => {
+    const { questions, repairs } = validateQuiz([question({ type: undefined, options: ['false', 'TRUE'], answerIndex: 0 })], segments, 'm1');
+    expect(questions[0]).toMatchObject({ type: 'true-false', options: ['True', 'False'], answerIndex: 1 });
+    expect(repairs).toHaveLength(1);
+  });
+
+  it('replaces missing and duplicate question ids', () => {
+    const { questions } = validateQuiz([question({}), question({}), question({ id: undefined })], segments, 'm1');
+    expect(questions.map(q => q.id)).toEqual(['q', 'm1-q1', 'm1-q2']);
+  });
+
+  it('rejects a quiz that is not a list', () => {
+    expect(validateQuiz({}, segments, 'm1').rejected).toEqual(["Quiz is not a list of questions."]);
+  });
+});
@@ -0,0 +1,297 @@
+import { Material, QuizQuestion, Segment } from '../types';
+
+export interface MaterialValidationOptions {
+  maxTime?: number; // Length of the audio in seconds; timings are clamped to it
+  reassignIds?: boolean; // Replace every segment id with one derived from the material id
+}
+
+export interface MaterialValidationResult {
+  material: Material | null; // null when nothing usable was left
+  repairs: string[]; // Problems that were fixed in place
+  rejected: string[]; // Parts that were dropped
+}
+
+const DIFFICULTIES: Material['difficulty'][] = ['Easy', 'Medium', 'Hard'];
+const TRUE_FALSE_OPTIONS = ['True', 'False'];
+const SECONDS_PER_WORD = 0.45;
+const MIN_ESTIMATED_SECONDS = 2;
+
+interface SegmentCandidate {
+  label: string; // "Sentence n", numbered as in the input
+  id: string | null;
+  text: string;
+  startTime: number; // NaN when missing
+  endTime: number;
+  confidence?: number;
+  speaker?: string;
+  sortKey: number;
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const readString = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// "True"/"False" in any order or case
+const isTrueFalseOptions = (options: string[]) =>
+  options.length === 2 && TRUE_FALSE_OPTIONS.every(o => options.some(option => option.toLowerCase() === o.toLowerCase()));
+
+const estimateSeconds = (text: string) =>
+  Math.max(MIN_ESTIMATED_SECONDS, text.split(/\s+/).filter(Boolean).length * SECONDS_PER_WORD);
+
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+/**
+ * Checks anything that claims to be a Material (model output, bundles, stored data)
+ * and repairs what it can: fills missing fields, drops empty sentences, sorts by
+ * start time, clamps and re-times broken or overlapping timings, and makes segment
+ * ids unique. Never throws; callers decide what to do with the report.
+ */
+export const validateMaterial = (input: unknown, options: MaterialValidationOptions = {}): MaterialValidationResult => {
+  const repairs: string[] = [];
+  const rejected: string[] = [];
+
+  if (!isRecord(input)) {
+    return { material: null, repairs, rejected: ["Not a material object."] };
+  }
+
+  let id = readString(input.id);
+  if (!id) {
+    id = `custom-${Date.now()}`;
+    repairs.push("Missing id was generated.");
+  }
+
+  let title = readString(input.title);
+  if (!title) {
+    title = "Untitled";
+    repairs.push("Missing title was set to \"Untitled\".");
+  }
+
+  const difficulty = DIFFICULTIES.includes(input.difficulty as Material['difficulty'])
+    ? input.difficulty as Material['difficulty']
+    : 'Medium';
+  if (input.difficulty !== undefined && difficulty !== input.difficulty) {
+    repairs.push(`Unknown difficulty "${String(input.difficulty)}" was set to Medium.`);
+  }
+
+  if (!Array.isArray(input.segments)) {
+    return { material: null, repairs, rejected: [...rejected, `"${title}" has no sentence list.`] };
+  }
+
+  // --- Sentences ---
+  const candidates: SegmentCandidate[] = [];
+  let lastKey = 0;
+  input.segments.forEach((raw, i) => {
+    const label = `Sentence ${i + 1}`;
+    if (!isRecord(raw)) {
+      rejected.push(`${label}: not a sentence object.`);
+      return;
+    }
+    const text = readString(raw.text).replace(/\s+/g, ' ');
+    if (!text) {
+      rejected.push(`${label}: empty text.`);
+      return;
+    }
+
+    let startTime = typeof raw.startTime === 'number' ? raw.startTime : Number.NaN;
+    let endTime = typeof raw.endTime === 'number' ? raw.endTime : Number.NaN;
+    if (startTime < 0 || endTime < 0) {
+      repairs.push(`${label}: negative time clamped to 0.`);
+      startTime = Math.max(0, startTime);
+      endTime = Math.max(0, endTime);
+    }
+    if (options.maxTime !== undefined) {
+      if (startTime >= options.maxTime) {
+        rejected.push(`${label}: starts after the audio ends.`);
+        return;
+      }
+      if (endTime > options.maxTime) {
+        repairs.push(`${label}: end clamped to the audio length.`);
+        endTime = options.maxTime;
+      }
+    }
+
+    let confidence: number | undefined;
+    if (typeof raw.confidence === 'number' && Number.isFinite(raw.confidence)) {
+      confidence = Math.min(1, Math.max(0, raw.confidence));
+    }
+    const speaker = readString(raw.speaker) || undefined;
+
+    // Sentences without a usable start stay right after their predecessor when sorting
+    if (Number.isFinite(startTime)) lastKey = startTime;
+    candidates.push({ label, id: readString(raw.id) || null, text, startTime, endTime, confidence, speaker, sortKey: lastKey });
+  });
+
+  if (candidates.length === 0) {
+    return { material: null, repairs, rejected: [...rejected, `"${title}" has no usable sentences.`] };
+  }
+
+  // --- Ids ---
+  // Resolved in input order, so the first of two duplicates keeps its id
+  const usedIds = new Set<string>();
+  let renamed = 0;
+  candidates.forEach((c, i) => {
+    let segmentId = options.reassignIds ? null : c.id;
+    if (!segmentId || usedIds.has(segmentId)) {
+      if (!options.reassignIds) renamed++;
+      segmentId = `${id}-${i}`;
+      for (let n = 1; usedIds.has(segmentId); n++) segmentId = `${id}-${i}-${n}`;
+    }
+    usedIds.add(segmentId);
+    c.id = segmentId;
+  });
+  if (renamed > 0) repairs.push(`${renamed} missing or duplicate sentence id(s) were replaced.`);
+
+  const sorted = [...candidates].sort((a, b) => a.sortKey - b.sortKey);
+  if (sorted.some((c, i) => c !== candidates[i])) repairs.push("Sentences were reordered by start time.");
+
+  // --- Timings ---
+  // Walk in order so every sentence starts at or after the previous one ends
+  let previous: SegmentCandidate | null = null;
+  sorted.forEach(c => {
+    const { label } = c;
+    const previousEnd = previous ? previous.endTime : 0;
+
+    if (!Number.isFinite(c.startTime)) {
+      c.startTime = previousEnd;
+      repairs.push(`${label}: missing start time was estimated.`);
+    } else if (previous && c.startTime < previousEnd) {
+      // Prefer trimming the earlier sentence; only push this one back if that would erase it
+      if (c.startTime > previous.startTime) previous.endTime = c.startTime;
+      else c.startTime = previousEnd;
+      repairs.push(`${label}: overlapped the previous sentence.`);
+    }
+
+    if (!Number.isFinite(c.endTime) || c.endTime <= c.startTime) {
+      c.endTime = c.startTime + estimateSeconds(c.text);
+      if (options.maxTime !== undefined) c.endTime = Math.min(c.endTime, options.maxTime);
+      repairs.push(`${label}: missing or invalid end time was estimated.`);
+    }
+    previous = c;
+  });
+
+  const segments: Segment[] = sorted.map(c => {
+    const segment: Segment = { id: c.id!, text: c.text, startTime: round(c.startTime), endTime: round(c.endTime) };
+    if (c.confidence !== undefined) segment.confidence = c.confidence;
+    if (c.speaker) segment.speaker = c.speaker;
+    return segment;
+  });
+
+  let duration = readString(input.duration);
+  if (!/^\d+:\d{2}$/.test(duration)) {
+    if (duration) repairs.push(`Invalid duration "${duration}" was recalculated.`);
+    duration = formatDuration(options.maxTime ?? segments[segments.length - 1].endTime);
+  }
+
+  const quiz = input.quiz === undefined ? null : validateQuiz(input.quiz, segments, id);
+  if (quiz) {
+    repairs.push(...quiz.repairs);
+    rejected.push(...quiz.rejected);
+  }
+
+  return {
+    material: {
+      id,
+      title,
+      description: readString(input.description),
+      category: readString(input.category) || "General",
+      difficulty,
+      duration,
+      imageUrl: readString(input.imageUrl),
+      audioUrl: readString(input.audioUrl),
+      segments,
+      ...(quiz && quiz.questions.length > 0 ? { quiz: quiz.questions } : {}),
+      ...(readString(input.lang) ? { lang: readString(input.lang) } : {}),
+    },
+    repairs,
+    rejected,
+  };
+};
+
+/**
+ * Checks quiz questions against the material's sentences. Questions that can't be
+ * answered (no prompt, too few options, answer out of range) or that point at a
+ * sentence that doesn't exist are dropped, since re-listening is their whole point.
+ */
+export const validateQuiz = (input: unknown, segments: Segment[], idPrefix: string) => {
+  const repairs: string[] = [];
+  const rejected: string[] = [];
+  const questions: QuizQuestion[] = [];
+
+  if (!Array.isArray(input)) {
+    return { questions, repairs, rejected: ["Quiz is not a list of questions."] };
+  }
+
+  const segmentIds = new Set(segments.map(s => s.id));
+  const usedIds = new Set<string>();
+  input.forEach((raw, i) => {
+    const label = `Question ${i + 1}`;
+    if (!isRecord(raw)) {
+      rejected.push(`${label}: not a question object.`);
+      return;
+    }
+    const prompt = readString(raw.prompt);
+    if (!prompt) {
+      rejected.push(`${label}: empty question.`);
+      return;
+    }
+    const segmentId = readString(raw.segmentId);
+    if (!segmentIds.has(segmentId)) {
+      rejected.push(`${label}: not linked to a sentence in this material.`);
+      return;
+    }
+
+    const rawOptions = Array.isArray(raw.options) ? raw.options.map(readString).filter(Boolean) : [];
+    const isTrueFalsePair = isTrueFalseOptions(rawOptions);
+    const type = raw.type === 'true-false' || raw.type === 'multiple-choice'
+      ? raw.type
+      : (isTrueFalsePair ? 'true-false' : 'multiple-choice');
+    if (type === 'true-false' && !isTrueFalsePair) {
+      rejected.push(`${label}: a true/false question needs the options "True" and "False".`);
+      return;
+    }
+    if (rawOptions.length < 2) {
+      rejected.push(`${label}: needs at least two options.`);
+      return;
+    }
+    const rawAnswerIndex = typeof raw.answerIndex === 'number' ? raw.answerIndex : Number.NaN;
+    if (!Number.isInteger(rawAnswerIndex) || rawAnswerIndex < 0 || rawAnswerIndex >= rawOptions.length) {
+      rejected.push(`${label}: the correct answer is missing or out of range.`);
+      return;
+    }
+
+    // True/false options are stored in a fixed order, so the answer follows its text, not its position
+    let options = rawOptions;
+    let answerIndex = rawAnswerIndex;
+    if (type === 'true-false') {
+      options = [...TRUE_FALSE_OPTIONS];
+      answerIndex = options.findIndex(o => o.toLowerCase() === rawOptions[rawAnswerIndex].toLowerCase());
+      if (rawOptions.some((o, j) => o !== options[j])) repairs.push(`${label}: true/false options were put in the usual order.`);
+    }
+
+    let id = readString(raw.id);
+    if (!id || usedIds.has(id)) {
+      if (id) repairs.push(`${label}: duplicate id was replaced.`);
+      id = `${idPrefix}-q${i}`;
+      for (let n = 1; usedIds.has(id); n++) id = `${idPrefix}-q${i}-${n}`;
+    }
+    usedIds.add(id);
+
+    const question: QuizQuestion = { id, type, prompt, options, answerIndex, segmentId };
+    const explanation = readString(raw.explanation);
+    if (explanation) question.explanation = explanation;
+    questions.push(question);
+  });
+
+  return { questions, repairs, rejected };
+};
+
+/** One line for logs and notices, e.g. "3 repairs, 1 sentence dropped (Sentence 4: empty text.)". */
+export const summarizeValidation = ({ repairs, rejected }: MaterialValidationResult) => {
+  const parts: string[] = [];
+  if (repairs.length > 0) parts.push(`${repairs.length} repair${repairs.length === 1 ? '' : 's'}`);
+  if (rejected.length > 0) parts.push(`${rejected.length} part${rejected.length === 1 ? '' : 's'} dropped (${rejected.join(' ')})`);
+  return parts.join(', ');
+};
@@ -0,0 +1,110 @@
+// Local pitch (F0) tracking for comparing a learner's take with the original.
+// Uses normalised autocorrelation on a downsampled mono signal, which is plenty
+// for the 70-500 Hz range of speech and cheap enough to run on the main thread.
+
+export interface PitchPoint {
+  time: number; // seconds from the start of the analysed range
+  frequency: number | null; // Hz, null where the frame is silent or unvoiced
+}
+
+const ANALYSIS_RATE = 11025;
+const FRAME_SECONDS = 0.04; // Covers two periods of the lowest pitch we look for
+const HOP_SECONDS = 0.01;
+const MIN_HZ = 70;
+const MAX_HZ = 500;
+const MIN_CLARITY = 0.5; // Correlation peak needed to call a frame voiced
+const SILENCE_RMS = 0.01;
+
+// Averages channels and decimates to roughly ANALYSIS_RATE
+const toMonoSlice = (buffer: AudioBuffer, startTime: number, endTime: number): { samples: Float32Array; rate: number } => {
+  const factor = Math.max(1, Math.floor(buffer.sampleRate / ANALYSIS_RATE));
+  const startSample = Math.max(0, Math.floor(startTime * buffer.sampleRate));
+  const endSample = Math.min(buffer.length, Math.ceil(endTime * buffer.sampleRate));
+  const length = Math.max(0, Math.floor((endSample - startSample) / factor));
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const samples = new Float32Array(length);
+
+  for (let i = 0; i < length; i++) {
+    let sum = 0;
+    const from = startSample + i * factor;
+    for (let j = 0; j < factor; j++) {
+      for (const data of channels) sum += data[from + j];
+    }
+    samples[i] = sum / (factor * channels.length);
+  }
+  return { samples, rate: buffer.sampleRate / factor };
+};
+
+const estimateFrame = (samples: Float32Array, offset: number, size: number, rate: number): number | null => {
+  let energy = 0;
+  for (let i = 0; i < size; i++) energy += samples[offset + i] ** 2;
+  if (Math.sqrt(energy / size) < SILENCE_RMS) return null;
+
+  const minLag = Math.floor(rate / MAX_HZ);
+  const maxLag = Math.min(size - 1, Math.ceil(rate / MIN_HZ));
+  let bestLag = -1;
+  let bestClarity = 0;
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let cross = 0;
+    let energyA = 0;
+    let energyB = 0;
+    for (let i = 0; i < size - lag; i++) {
+      const a = samples[offset + i];
+      const b = samples[offset + i + lag];
+      cross += a * b;
+      energyA += a * a;
+      energyB += b * b;
+    }
+    const clarity = cross / (Math.sqrt(energyA * energyB) || 1);
+    if (clarity > bestClarity) {
+      bestClarity = clarity;
+      bestLag = lag;
+    }
+  }
+
+  return bestLag > 0 && bestClarity >= MIN_CLARITY ? rate / bestLag : null;
+};
+
+/** Pitch contour of `buffer` between `startTime` and `endTime`, one point every 10 ms. */
+export const estimatePitchContour = (buffer: AudioBuffer, startTime = 0, endTime = buffer.duration): PitchPoint[] => {
+  const { samples, rate } = toMonoSlice(buffer, startTime, endTime);
+  const frameSize = Math.floor(FRAME_SECONDS * rate);
+  const hop = Math.floor(HOP_SECONDS * rate);
+  const points: PitchPoint[] = [];
+
+  for (let offset = 0; offset + frameSize <= samples.length; offset += hop) {
+    points.push({
+      time: (offset + frameSize / 2) / rate,
+      frequency: estimateFrame(samples, offset, frameSize, rate),
+    });
+  }
+  return points;
+};
+
+/**
+ * Seconds from `startTime` until the signal first rises above a fraction of its
+ * peak. Used to line up the first syllable of a take with the original, since
+ * takes usually begin with the learner's reaction delay.
+ */
+export const findVoiceOnset = (buffer: AudioBuffer, startTime = 0, endTime = buffer.duration): number => {
+  const { samples, rate } = toMonoSlice(buffer, startTime, endTime);
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  const threshold = Math.max(SILENCE_RMS, peak * 0.15);
+  for (let i = 0; i < samples.length; i++) {
+    if (Math.abs(samples[i]) >= threshold) return Math.max(0, i / rate - 0.05);
+  }
+  return 0;
+};
+
+/**
+ * Converts Hz to semitones relative to the speaker's median pitch, so a low and
+ * a high voice can be compared by contour shape rather than absolute height.
+ */
+export const toRelativeSemitones = (points: PitchPoint[]): (number | null)[] => {
+  const voiced = points.map(p => p.frequency).filter((f): f is number => f !== null).sort((a, b) => a - b);
+  if (voiced.length === 0) return points.map(() => null);
+  const median = voiced[Math.floor(voiced.length / 2)];
+  return points.map(p => (p.frequency === null ? null : 12 * Math.log2(p.frequency / median)));
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { PracticeSession } from '../types';
+import { getDailyMinutes, getMostReplayed, getStreaks, getWeeklyMinutes } from './practiceStats';
+
+// Local times, like the dashboard; mid-June keeps DST changes out of the way
+const at = (day: number, hour = 12, minute = 0) => new Date(2026, 5, day, hour, minute).getTime();
+const WEDNESDAY = at(17, 10);
+
+const session = (startedAt: number, activeSeconds: number, loops: Record<string, number> = {}): PracticeSession => ({
+  id: String(startedAt), materialId: 'm', startedAt, lastActiveAt: startedAt,
+  activeSeconds, loops, viewModeSeconds: {}, recordings: 0,
+});
+
+describe('getDailyMinutes', () => {
+  it('sums each calendar day, oldest first', () => {
+    const sessions = [session(at(15, 8), 300), session(at(15, 20), 300), session(at(17, 9), 120)];
+    expect(getDailyMinutes(sessions, 3, WEDNESDAY).map(d => [d.key, d.minutes])).toEqual([
+      ['2026-06-15', 10],
+      ['2026-06-16', 0],
+      ['2026-06-17', 2],
+    ]);
+  });
+});
+
+describe('getWeeklyMinutes', () => {
+  it('splits weeks between Sunday night and Monday morning', () => {
+    const sessions = [session(at(14, 23), 600), session(at(15, 0, 30), 1200)];
+    expect(getWeeklyMinutes(sessions, 2, WEDNESDAY).map(w => [w.key, w.minutes])).toEqual([
+      ['2026-06-08', 10],
+      ['2026-06-15', 20],
+    ]);
+  });
+
+  it('counts a Sunday as the end of its week', () => {
+    const weeks = getWeeklyMinutes([session(at(21, 18), 60)], 1, at(21, 20));
+    expect(weeks).toMatchObject([{ key: '2026-06-15', minutes: 1 }]);
+  });
+});
+
+describe('getStreaks', () => {
+  it('keeps the streak alive until the end of today', () => {
+    const sessions = [session(at(15), 60), session(at(16), 60)];
+    expect(getStreaks(sessions, WEDNESDAY)).toEqual({ current: 2, longest: 2 });
+  });
+
+  it('breaks the streak after a missed day and remembers the longest run', () => {
+    const sessions = [1, 2, 3, 4, 5, 15].map(day => session(at(day), 60));
+    expect(getStreaks(sessions, WEDNESDAY)).toEqual({ current: 0, longest: 5 });
+  });
+
+  it('ignores sessions without active time', () => {
+    expect(getStreaks([session(at(17), 0)], WEDNESDAY)).toEqual({ current: 0, longest: 0 });
+  });
+});
+
+describe('getMostReplayed', () => {
+  it('adds up loops across sessions', () => {
+    const sessions = [session(at(15), 60, { a: 2, b: 5 }), session(at(16), 60, { a: 4 })];
+    expect(getMostReplayed(sessions, 1)).toEqual([{ materialId: 'm', segmentId: 'a', loops: 6 }]);
+  });
+});
@@ -0,0 +1,126 @@
+// Aggregates practice sessions for the stats dashboard. Days are local calendar days.
+
+import { PracticeSession } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DayTotal {
+  key: string; // YYYY-MM-DD
+  label: string;
+  minutes: number;
+}
+
+export interface ReplayedSentence {
+  materialId: string;
+  segmentId: string;
+  loops: number;
+}
+
+export const toDayKey = (timestamp: number): string => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const startOfDay = (timestamp: number) => {
+  const d = new Date(timestamp);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+const secondsByDay = (sessions: PracticeSession[]): Map<string, number> => {
+  const totals = new Map<string, number>();
+  sessions.forEach(s => {
+    const key = toDayKey(s.startedAt);
+    totals.set(key, (totals.get(key) || 0) + s.activeSeconds);
+  });
+  return totals;
+};
+
+/** Minutes per day for the last `days` days, oldest first. */
+export const getDailyMinutes = (sessions: PracticeSession[], days: number, now = Date.now()): DayTotal[] => {
+  const totals = secondsByDay(sessions);
+  const today = startOfDay(now);
+  return Array.from({ length: days }, (_, i) => {
+    // Noon avoids landing on the wrong day across DST changes
+    const day = today - (days - 1 - i) * DAY_MS + DAY_MS / 2;
+    const key = toDayKey(day);
+    return {
+      key,
+      label: new Date(day).toLocaleDateString([], { weekday: 'narrow' }),
+      minutes: Math.round((totals.get(key) || 0) / 60),
+    };
+  });
+};
+
+/** Minutes per week (weeks start on Monday) for the last `weeks` weeks, oldest first. */
+export const getWeeklyMinutes = (sessions: PracticeSession[], weeks: number, now = Date.now()): DayTotal[] => {
+  const today = new Date(startOfDay(now));
+  const mondayOffset = (today.getDay() + 6) % 7;
+  const thisWeek = today.getTime() - mondayOffset * DAY_MS;
+
+  return Array.from({ length: weeks }, (_, i) => {
+    const start = thisWeek - (weeks - 1 - i) * 7 * DAY_MS;
+    const end = start + 7 * DAY_MS;
+    const seconds = sessions
+      .filter(s => s.startedAt >= start && s.startedAt < end)
+      .reduce((acc, s) => acc + s.activeSeconds, 0);
+    return {
+      key: toDayKey(start + DAY_MS / 2),
+      label: new Date(start + DAY_MS / 2).toLocaleDateString([], { month: 'short', day: 'numeric' }),
+      minutes: Math.round(seconds / 60),
+    };
+  });
+};
+
+/**
+ * Consecutive practice days ending today. A streak survives until the end of
+ * today even if the learner hasn't practised yet.
+ */
+export const getStreaks = (sessions: PracticeSession[], now = Date.now()): { current: number; longest: number } => {
+  const days = new Set(Array.from(secondsByDay(sessions)).filter(([, seconds]) => seconds > 0).map(([key]) => key));
+  if (days.size === 0) return { current: 0, longest: 0 };
+
+  let current = 0;
+  let cursor = startOfDay(now) + DAY_MS / 2;
+  if (!days.has(toDayKey(cursor))) cursor -= DAY_MS;
+  while (days.has(toDayKey(cursor))) {
+    current++;
+    cursor -= DAY_MS;
+  }
+
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+  Array.from(days).sort().forEach(key => {
+    const [y, m, d] = key.split('-').map(Number);
+    const time = new Date(y, m - 1, d, 12).getTime();
+    run = previous !== null && Math.round((time - previous) / DAY_MS) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = time;
+  });
+
+  return { current, longest: Math.max(longest, current) };
+};
+
+export const getMostReplayed = (sessions: PracticeSession[], limit: number): ReplayedSentence[] => {
+  const totals = new Map<string, ReplayedSentence>();
+  sessions.forEach(s => {
+    Object.entries(s.loops).forEach(([segmentId, loops]) => {
+      const key = `${s.materialId}:${segmentId}`;
+      const entry = totals.get(key) ?? { materialId: s.materialId, segmentId, loops: 0 };
+      entry.loops += loops;
+      totals.set(key, entry);
+    });
+  });
+  return Array.from(totals.values()).sort((a, b) => b.loops - a.loops).slice(0, limit);
+};
+
+export const getViewModeMinutes = (sessions: PracticeSession[]): Record<string, number> => {
+  const totals: Record<string, number> = {};
+  sessions.forEach(s => {
+    Object.entries(s.viewModeSeconds).forEach(([mode, seconds]) => {
+      totals[mode] = (totals[mode] || 0) + seconds / 60;
+    });
+  });
+  return totals;
+};
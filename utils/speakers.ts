@@ -0,0 +1,45 @@
+import { Segment } from "../types";
+
+// "Anna: ...", "DR. LEE: ...", "Tara Sorenson: ..." — up to three capitalised words before a colon
+const SPEAKER_PREFIX = /^([\p{Lu}][\p{L}'’.-]*(?: [\p{Lu}][\p{L}'’.-]*){0,2}):\s+(\S.*)$/u;
+const MAX_SPEAKER_LENGTH = 30;
+
+/** Splits "Anna: Hello there." into its speaker and text; returns null when there is no prefix. */
+export const splitSpeakerPrefix = (text: string): { speaker: string; text: string } | null => {
+  const match = text.trim().match(SPEAKER_PREFIX);
+  if (!match || match[1].length > MAX_SPEAKER_LENGTH) return null;
+  return { speaker: match[1], text: match[2].trim() };
+};
+
+/**
+ * Moves "Name: " prefixes out of the text and into `speaker`. Sentences
+ * without a prefix belong to the last speaker named before them, since a turn
+ * is often several sentences long. Only applied when at least two different
+ * speakers are named, so a stray "Note: ..." in a monologue stays as text.
+ * Items that already carry a speaker are left alone.
+ */
+export const assignSpeakerPrefixes = <T extends { text: string; speaker?: string }>(items: T[]): T[] => {
+  const splits = items.map(item => (item.speaker ? null : splitSpeakerPrefix(item.text)));
+  const named = new Set(splits.filter(Boolean).map(s => s!.speaker.toLowerCase()));
+  if (named.size < 2) return items;
+
+  let current: string | undefined;
+  return items.map((item, i) => {
+    const split = splits[i];
+    if (item.speaker) {
+      current = item.speaker;
+      return item;
+    }
+    if (split) current = split.speaker;
+    return split ? { ...item, text: split.text, speaker: split.speaker } : (current ? { ...item, speaker: current } : item);
+  });
+};
+
+/** Distinct speakers in order of first appearance. */
+export const getSpeakers = (segments: Segment[]): string[] => {
+  const speakers: string[] = [];
+  for (const seg of segments) {
+    if (seg.speaker && !speakers.includes(seg.speaker)) speakers.push(seg.speaker);
+  }
+  return speakers;
+};
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { Segment } from '../types';
+import { cuesToSentences, detectSubtitleFormat, formatSrt, formatVtt, parseLrc, parseSrt, parseSubtitleFile, parseVtt } from './subtitles';
+
+describe('parseSrt', () => {
+  it('reads numbered cues and strips formatting', () => {
+    const cues = parseSrt('1\r\n00:00:01,000 --> 00:00:02,500\r\n<i>Hello</i> &amp; welcome\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\nSecond line\r\n');
+    expect(cues).toEqual([
+      { startTime: 1, endTime: 2.5, text: 'Hello & welcome' },
+      { startTime: 3, endTime: 4, text: 'Second line' },
+    ]);
+  });
+
+  it('skips cues with broken timings or no text', () => {
+    const cues = parseSrt('1\n00:00:01,000 --> nonsense\nBroken\n\n2\n00:00:02,000 --> 00:00:03,000\n\n\n3\n00:00:04,000 --> 00:00:05,000\nKept\n');
+    expect(cues.map(c => c.text)).toEqual(['Kept']);
+  });
+});
+
+describe('parseVtt', () => {
+  it('requires the WEBVTT header', () => {
+    expect(() => parseVtt('00:00:01.000 --> 00:00:02.000\nHi')).toThrow(/WEBVTT/);
+  });
+
+  it('ignores cue settings, NOTE blocks and reads voice tags', () => {
+    const cues = parseVtt('WEBVTT\n\nNOTE a comment\n\nintro\n00:01.000 --> 00:02.000 align:start\n<v.loud Tara>Hi there\n');
+    expect(cues).toEqual([{ startTime: 1, endTime: 2, text: 'Hi there', speaker: 'Tara' }]);
+  });
+});
+
+describe('parseLrc', () => {
+  it('ends each line where the next starts and applies the offset', () => {
+    const cues = parseLrc('[ti:Song]\n[offset:+500]\n[00:01.00]One\n[00:03.50]Two', 10);
+    expect(cues).toEqual([
+      { startTime: 0.5, endTime: 3, text: 'One' },
+      { startTime: 3, endTime: 10, text: 'Two' },
+    ]);
+  });
+
+  it('repeats a line for every timestamp it carries', () => {
+    const cues = parseLrc('[00:01.00][00:05.00]Chorus\n[00:03.00]Verse', 8);
+    expect(cues.map(c => [c.startTime, c.text])).toEqual([[1, 'Chorus'], [3, 'Verse'], [5, 'Chorus']]);
+  });
+});
+
+describe('detectSubtitleFormat', () => {
+  it('prefers the file extension and falls back to the content', () => {
+    expect(detectSubtitleFormat('a.SRT', '')).toBe('srt');
+    expect(detectSubtitleFormat('a.txt', 'WEBVTT\n')).toBe('vtt');
+    expect(detectSubtitleFormat('a.txt', '1\n00:00:01,000 --> 00:00:02,000\nHi')).toBe('srt');
+    expect(detectSubtitleFormat('a.txt', '[00:01.00]Hi')).toBe('lrc');
+    expect(detectSubtitleFormat('a.txt', 'plain text')).toBeNull();
+  });
+
+  it('rejects files without timed lines', () => {
+    expect(() => parseSubtitleFile('a.txt', 'plain text')).toThrow(/Unrecognized/);
+    expect(() => parseSubtitleFile('a.srt', 'no cues')).toThrow(/No timed lines/);
+  });
+});
+
+describe('cuesToSentences', () => {
+  it('joins a sentence split across cues', () => {
+    const sentences = cuesToSentences([
+      { startTime: 0, endTime: 2, text: 'The quick brown fox' },
+      { startTime: 2, endTime: 4, text: 'jumps over the dog.' },
+    ]);
+    expect(sentences).toHaveLength(1);
+    expect(sentences[0]).toMatchObject({ text: 'The quick brown fox jumps over the dog.', startTime: 0, endTime: 4 });
+  });
+
+  it('splits a cue holding two sentences at an interpolated time', () => {
+    const sentences = cuesToSentences([{ startTime: 0, endTime: 10, text: 'Hello there. Goodbye now.' }]);
+    expect(sentences.map(s => s.text)).toEqual(['Hello there.', 'Goodbye now.']);
+    expect(sentences[0].endTime).toBeGreaterThan(4);
+    expect(sentences[0].endTime).toBeLessThan(6);
+    expect(sentences[1].startTime).toBeGreaterThanOrEqual(sentences[0].endTime);
+  });
+
+  it('ends a sentence when the speaker changes', () => {
+    const sentences = cuesToSentences([
+      { startTime: 0, endTime: 1, text: 'Are you', speaker: 'Ana' },
+      { startTime: 1, endTime: 2, text: 'Yes', speaker: 'Ben' },
+    ]);
+    expect(sentences.map(s => [s.speaker, s.text])).toEqual([['Ana', 'Are you'], ['Ben', 'Yes']]);
+  });
+});
+
+describe('formatSrt', () => {
+  it('numbers cues and uses comma milliseconds', () => {
+    const segments: Segment[] = [{ id: 's1', text: 'Hi', startTime: 3661.5, endTime: 3662.0049, speaker: 'Ana' }];
+    expect(formatSrt(segments)).toBe('1\n01:01:01,500 --> 01:01:02,005\nAna: Hi\n');
+  });
+});
+
+describe('formatVtt', () => {
+  it('escapes markup in cue text and speaker names', () => {
+    const segments: Segment[] = [{ id: 's1', text: 'A & B <3 --> C', startTime: 0, endTime: 1, speaker: 'R&D' }];
+    expect(formatVtt(segments)).toBe('WEBVTT\n\ns1\n00:00:00.000 --> 00:00:01.000\n<v R&amp;D>A &amp; B &lt;3 --&gt; C\n');
+  });
+
+  it('round-trips through the parser', () => {
+    const segments: Segment[] = [
+      { id: 'a', text: 'Tom & Jerry <run>', startTime: 1.25, endTime: 2.5, speaker: 'Narrator' },
+      { id: 'b', text: 'The end.', startTime: 3, endTime: 4 },
+    ];
+    expect(parseVtt(formatVtt(segments))).toEqual([
+      { startTime: 1.25, endTime: 2.5, text: 'Tom & Jerry <run>', speaker: 'Narrator' },
+      { startTime: 3, endTime: 4, text: 'The end.' },
+    ]);
+  });
+});
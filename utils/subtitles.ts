@@ -0,0 +1,221 @@
+import { Segment } from '../types';
+import { TimedSentence } from './alignment';
+import { splitIntoSentences } from './textUtils';
+
+export interface Cue {
+  startTime: number; // seconds
+  endTime: number; // seconds
+  text: string;
+  speaker?: string; // WebVTT <v Name> voice tag
+}
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'lrc';
+
+// LRC only has start times; the last line gets an estimated length from its text
+const LRC_SECONDS_PER_CHAR = 0.07;
+const LRC_MIN_LAST_LINE = 2;
+
+// Accepts "01:02:03,456", "01:02:03.456", "02:03.456" and "02:03"
+const parseTimestamp = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, h, m, s, ms] = match;
+  return (parseInt(h || '0', 10) * 3600)
+    + (parseInt(m, 10) * 60)
+    + parseInt(s, 10)
+    + (ms ? parseInt(ms.padEnd(3, '0'), 10) / 1000 : 0);
+};
+
+// Removes formatting tags (<i>, <c.x>, <00:00:01.000>, {\an8}) and collapses whitespace
+const cleanCueText = (text: string): string => {
+  return text
+    .replace(/<[^>]*>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+// "<v Tara>" or "<v.loud Tara Sorenson>"; the first voice tag names the cue's speaker
+const readVoiceTag = (text: string): string | undefined => {
+  const match = text.match(/<v(?:\.[^\s>]*)?\s+([^>]+)>/);
+  return match ? cleanCueText(match[1]) || undefined : undefined;
+};
+
+// SRT and WebVTT share the "start --> end" cue block layout
+const parseCueBlocks = (content: string): Cue[] => {
+  const blocks = content.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const cues: Cue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(l => l.includes('-->'));
+    if (timingIndex === -1) continue; // Header, NOTE, STYLE and REGION blocks
+
+    const [startRaw, rest] = lines[timingIndex].split('-->');
+    const endRaw = rest.trim().split(/\s+/)[0]; // Drop VTT cue settings
+    const startTime = parseTimestamp(startRaw);
+    const endTime = parseTimestamp(endRaw);
+    const raw = lines.slice(timingIndex + 1).join(' ');
+    const text = cleanCueText(raw);
+    if (startTime === null || endTime === null || !text) continue;
+
+    const cue: Cue = { startTime, endTime: Math.max(startTime, endTime), text };
+    const speaker = readVoiceTag(raw);
+    if (speaker) cue.speaker = speaker;
+    cues.push(cue);
+  }
+  return cues.sort((a, b) => a.startTime - b.startTime);
+};
+
+export const parseSrt = (content: string): Cue[] => parseCueBlocks(content);
+
+export const parseVtt = (content: string): Cue[] => {
+  if (!content.trimStart().startsWith('WEBVTT')) {
+    throw new Error("Not a WebVTT file (missing WEBVTT header).");
+  }
+  return parseCueBlocks(content);
+};
+
+export const parseLrc = (content: string, audioDuration?: number): Cue[] => {
+  let offset = 0;
+  const starts: { startTime: number; text: string }[] = [];
+
+  for (const line of content.replace(/\r\n?/g, '\n').split('\n')) {
+    const offsetTag = line.match(/^\[offset:\s*([+-]?\d+)\]/i);
+    if (offsetTag) {
+      // Positive offsets make lyrics appear sooner
+      offset = -parseInt(offsetTag[1], 10) / 1000;
+      continue;
+    }
+
+    // A line may carry several timestamps when the same text repeats
+    const stamps = [...line.matchAll(/\[(\d+:\d{1,2}(?:[.,]\d{1,3})?)\]/g)];
+    if (stamps.length === 0) continue; // Metadata such as [ti:], [ar:]
+    const text = cleanCueText(line.replace(/\[[^\]]*\]/g, ''));
+    if (!text) continue;
+
+    for (const stamp of stamps) {
+      const startTime = parseTimestamp(stamp[1]);
+      if (startTime !== null) starts.push({ startTime, text });
+    }
+  }
+
+  starts.sort((a, b) => a.startTime - b.startTime);
+  return starts.map((line, i) => {
+    const startTime = Math.max(0, line.startTime + offset);
+    const next = starts[i + 1];
+    const estimatedEnd = startTime + Math.max(LRC_MIN_LAST_LINE, line.text.length * LRC_SECONDS_PER_CHAR);
+    const endTime = next
+      ? Math.max(startTime, next.startTime + offset)
+      : (audioDuration ? Math.max(startTime, audioDuration) : estimatedEnd);
+    return { startTime, endTime, text: line.text };
+  });
+};
+
+export const detectSubtitleFormat = (fileName: string, content: string): SubtitleFormat | null => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'srt' || ext === 'vtt' || ext === 'lrc') return ext;
+  if (content.trimStart().startsWith('WEBVTT')) return 'vtt';
+  if (/^\s*\d+\s*\n\s*\d{1,2}:\d{2}:\d{2},\d{3}\s*-->/m.test(content)) return 'srt';
+  if (/^\[\d+:\d{1,2}(?:[.,]\d{1,3})?\]/m.test(content)) return 'lrc';
+  return null;
+};
+
+export const parseSubtitleFile = (fileName: string, content: string, audioDuration?: number): Cue[] => {
+  const format = detectSubtitleFormat(fileName, content);
+  if (!format) throw new Error("Unrecognized subtitle format. Use SRT, WebVTT or LRC.");
+
+  const cues = format === 'srt' ? parseSrt(content)
+    : format === 'vtt' ? parseVtt(content)
+    : parseLrc(content, audioDuration);
+
+  if (cues.length === 0) throw new Error("No timed lines found in the subtitle file.");
+  return cues;
+};
+
+// Sentences for a run of cues that share a speaker
+const runToSentences = (cues: Cue[]): TimedSentence[] => {
+  const spans: { from: number; to: number; cue: Cue }[] = [];
+  let fullText = '';
+  for (const cue of cues) {
+    const text = cue.text.replace(/\s+/g, ' ').trim();
+    if (!text) continue;
+    if (fullText) fullText += ' ';
+    spans.push({ from: fullText.length, to: fullText.length + text.length, cue });
+    fullText += text;
+  }
+
+  const timeAt = (charIndex: number, edge: 'start' | 'end'): number => {
+    const span = spans.find(s => charIndex >= s.from && charIndex < s.to)
+      // Whitespace between cues belongs to the cue after it (start) or before it (end)
+      ?? (edge === 'start' ? spans.find(s => s.from > charIndex) : [...spans].reverse().find(s => s.to <= charIndex))
+      ?? spans[spans.length - 1];
+    const ratio = Math.min(1, Math.max(0, (charIndex - span.from) / (span.to - span.from)));
+    return span.cue.startTime + ratio * (span.cue.endTime - span.cue.startTime);
+  };
+
+  let cursor = 0;
+  return splitIntoSentences(fullText).map(sentence => {
+    const found = fullText.indexOf(sentence, cursor);
+    const from = found === -1 ? cursor : found;
+    const to = from + sentence.length;
+    cursor = to;
+    return { text: sentence, startTime: timeAt(from, 'start'), endTime: timeAt(to, 'end') };
+  });
+};
+
+/**
+ * Re-cuts subtitle cues into whole sentences. Cues rarely line up with
+ * sentences (one sentence often spans two cues, or one cue holds two short
+ * sentences), so every character is given a time by interpolating inside its
+ * cue, and each sentence takes the times of its first and last characters.
+ * A change of voice always ends a sentence, so each keeps a single speaker.
+ */
+export const cuesToSentences = (cues: Cue[]): TimedSentence[] => {
+  const sentences: TimedSentence[] = [];
+  let run: Cue[] = [];
+  const flush = () => {
+    if (run.length === 0) return;
+    const speaker = run[0].speaker;
+    runToSentences(run).forEach(s => sentences.push(speaker ? { ...s, speaker } : s));
+    run = [];
+  };
+  for (const cue of cues) {
+    if (run.length > 0 && run[0].speaker !== cue.speaker) flush();
+    run.push(cue);
+  }
+  flush();
+  return sentences;
+};
+
+// --- Writers ---
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+const formatCueTimestamp = (seconds: number, separator: ',' | '.'): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(totalMs % 1000, 3)}`;
+};
+
+export const formatSrt = (segments: Segment[]): string => {
+  return segments
+    .map((seg, i) => `${i + 1}\n${formatCueTimestamp(seg.startTime, ',')} --> ${formatCueTimestamp(seg.endTime, ',')}\n${seg.speaker ? `${seg.speaker}: ` : ''}${seg.text}\n`)
+    .join('\n');
+};
+
+// WebVTT cue text is markup: a bare "&" or "<" would be read as an entity or tag, and "-->" ends the cue
+const escapeVttText = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const formatVtt = (segments: Segment[]): string => {
+  const cues = segments
+    .map(seg => `${seg.id}\n${formatCueTimestamp(seg.startTime, '.')} --> ${formatCueTimestamp(seg.endTime, '.')}\n${seg.speaker ? `<v ${escapeVttText(seg.speaker)}>` : ''}${escapeVttText(seg.text)}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${cues}`;
+};
@@ -0,0 +1,42 @@
+// Strict Sentence Splitting using Intl.Segmenter
+// This avoids breaking sentences at commas, ensuring "Sentence Mode" works correctly.
+export const splitIntoSentences = (text: string): string[] => {
+  // Normalize whitespace
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  
+  if (typeof Intl !== 'undefined' && (Intl as any).Segmenter) {
+      const segmenter = new (Intl as any).Segmenter('en', { granularity: 'sentence' });
+      const segments = [...segmenter.segment(normalized)];
+      return segments.map((s: any) => s.segment.trim()).filter(s => s.length > 0);
+  }
+
+  // Fallback regex for browsers without Segmenter support
+  // Splits on . ! ? or Chinese equivalents, keeping the punctuation.
+  const processed = normalized.replace(/([.!?。！？])/g, "$1|");
+  return processed.split('|').map(s => s.trim()).filter(s => s.length > 0);
+};
+
+// Articles, pronouns, auxiliaries, prepositions and conjunctions.
+// Used by the "content words" blur hint, which leaves these readable.
+const FUNCTION_WORDS = new Set([
+  'a', 'an', 'the', 'this', 'that', 'these', 'those', 'some', 'any', 'no', 'every', 'each',
+  'i', 'me', 'my', 'mine', 'you', 'your', 'yours', 'he', 'him', 'his', 'she', 'her', 'hers',
+  'it', 'its', 'we', 'us', 'our', 'ours', 'they', 'them', 'their', 'theirs', 'who', 'whom',
+  'whose', 'which', 'what', 'there', 'here',
+  'am', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does',
+  'did', 'will', 'would', 'shall', 'should', 'can', 'could', 'may', 'might', 'must',
+  'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with', 'from', 'into', 'onto', 'about', 'as',
+  'than', 'over', 'under', 'after', 'before', 'up', 'down', 'out', 'off', 'through',
+  'and', 'or', 'but', 'nor', 'so', 'yet', 'if', 'because', 'while', 'when', 'not',
+  "i'm", "it's", "don't", "isn't", "we're", "they're", "you're", "that's", "let's",
+]);
+
+// Strips surrounding punctuation so "silence," and "Silence" compare equal
+export const normalizeWord = (word: string): string => {
+  return word.toLowerCase().replace(/^[^\p{L}\p{N}']+|[^\p{L}\p{N}']+$/gu, '').replace(/’/g, "'");
+};
+
+export const isFunctionWord = (word: string): boolean => FUNCTION_WORDS.has(normalizeWord(word));
+
+// "commodity." -> "_________." : keeps punctuation so sentence shape stays readable
+export const toLengthPlaceholder = (word: string): string => word.replace(/[\p{L}\p{N}]/gu, '_');
@@ -0,0 +1,52 @@
+// Vocabulary notebook exports: a plain CSV for spreadsheets and a tab-separated
+// file that Anki imports as Basic notes (front: word, back: definition + sentence).
+
+import { VocabularyEntry } from '../types';
+import { formatTimestamp } from './audioUtils';
+
+const escapeCsv = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Anki's TSV import has no quoting, so tabs and newlines inside a field must go
+const cleanTsv = (value: string) => value.replace(/[\t\r\n]+/g, ' ').trim();
+
+const escapeHtml = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Bolds the first whole-word match (so "art" isn't found inside "start"), escaping the text around it
+const highlightWord = (text: string, word: string) => {
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\p{L}\\p{N}])`, 'iu');
+  const match = pattern.exec(text);
+  if (!match) return escapeHtml(text);
+  const end = match.index + match[0].length;
+  return `${escapeHtml(text.slice(0, match.index))}<b>${escapeHtml(match[0])}</b>${escapeHtml(text.slice(end))}`;
+};
+
+// Tags can't contain spaces
+const toAnkiTag = (title: string) => title.trim().replace(/\s+/g, '_').replace(/[^\p{L}\p{N}_-]/gu, '') || 'blurlisten';
+
+export const formatVocabularyCsv = (entries: VocabularyEntry[], materialTitles: Record<string, string>): string => {
+  const header = ['word', 'definition', 'sentence', 'material', 'start', 'end'];
+  const rows = entries.map(e => [
+    e.word,
+    e.definition,
+    e.segmentText,
+    materialTitles[e.materialId] ?? e.materialId,
+    formatTimestamp(e.startTime),
+    formatTimestamp(e.endTime),
+  ]);
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+};
+
+export const formatAnkiTsv = (entries: VocabularyEntry[], materialTitles: Record<string, string>): string => {
+  const lines = [
+    '#separator:tab',
+    '#html:true',
+    '#tags column:3',
+  ];
+  entries.forEach(e => {
+    // Bold the word inside the sentence so the card shows it in context
+    const back = `${escapeHtml(e.definition)}<br><br><i>${highlightWord(e.segmentText, e.word)}</i>`;
+    // Every field is read as HTML, so the word is escaped too
+    lines.push([escapeHtml(e.word), back, toAnkiTag(materialTitles[e.materialId] ?? '')].map(cleanTsv).join('\t'));
+  });
+  return lines.join('\n') + '\n';
+};